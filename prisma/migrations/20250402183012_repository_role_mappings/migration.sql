@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "RepositoryRoleMapping" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kind" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    CONSTRAINT "RepositoryRoleMapping_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RepositoryRoleMapping_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "FollowedRepository" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositoryRoleMapping_repositoryId_kind_roleId_key" ON "RepositoryRoleMapping"("repositoryId", "kind", "roleId");
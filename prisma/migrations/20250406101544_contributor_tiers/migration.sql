@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "ContributorTier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "minContributions" INTEGER NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "ContributorTier_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContributorTier_guildConfigId_minContributions_key" ON "ContributorTier"("guildConfigId", "minContributions");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "removeOnlyGrantedRoles" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "RoleGrant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "discordId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "grantedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reason" TEXT NOT NULL,
+    "guildConfigId" TEXT NOT NULL,
+    "syncId" TEXT,
+    CONSTRAINT "RoleGrant_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RoleGrant_syncId_fkey" FOREIGN KEY ("syncId") REFERENCES "GuildSyncHistory" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoleGrant_guildConfigId_discordId_roleId_key" ON "RoleGrant"("guildConfigId", "discordId", "roleId");
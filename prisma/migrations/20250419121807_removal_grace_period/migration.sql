@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "removalGracePeriodHours" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "PendingRoleRemoval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "discordId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "ineligibleSince" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reason" TEXT NOT NULL,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "PendingRoleRemoval_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingRoleRemoval_guildConfigId_discordId_roleId_key" ON "PendingRoleRemoval"("guildConfigId", "discordId", "roleId");
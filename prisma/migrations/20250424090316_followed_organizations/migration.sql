@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "FollowedOrganization" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "login" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "FollowedOrganization_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FollowedOrganization_guildConfigId_login_key" ON "FollowedOrganization"("guildConfigId", "login");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "TeamRoleMapping" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "org" TEXT NOT NULL,
+    "teamSlug" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "TeamRoleMapping_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamRoleMapping_guildConfigId_org_teamSlug_roleId_key" ON "TeamRoleMapping"("guildConfigId", "org", "teamSlug", "roleId");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SponsorRoleMapping" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sponsorable" TEXT NOT NULL,
+    "tierName" TEXT NOT NULL DEFAULT '',
+    "includePrivate" BOOLEAN NOT NULL DEFAULT false,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "SponsorRoleMapping_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SponsorRoleMapping_guildConfigId_sponsorable_tierName_roleId_key" ON "SponsorRoleMapping"("guildConfigId", "sponsorable", "tierName", "roleId");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "mergedPullRequestRoleId" TEXT;
+ALTER TABLE "GuildConfig" ADD COLUMN "pullRequestAuthorRoleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RepositoryActivity" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "authorLogin" TEXT NOT NULL,
+    "mergedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RepositorySyncCursor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "cursor" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositoryActivity_owner_name_kind_number_key" ON "RepositoryActivity"("owner", "name", "kind", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositorySyncCursor_owner_name_kind_key" ON "RepositorySyncCursor"("owner", "name", "kind");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "issueAuthorLabel" TEXT;
+ALTER TABLE "GuildConfig" ADD COLUMN "issueAuthorRoleId" TEXT;
+ALTER TABLE "GuildConfig" ADD COLUMN "reviewerRoleId" TEXT;
+
+-- DropIndex
+DROP INDEX "RepositoryActivity_owner_name_kind_number_key";
+
+-- AlterTable
+ALTER TABLE "RepositoryActivity" ADD COLUMN "externalId" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "RepositoryActivity" ADD COLUMN "labels" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepositoryActivity_owner_name_kind_number_externalId_key" ON "RepositoryActivity"("owner", "name", "kind", "number", "externalId");
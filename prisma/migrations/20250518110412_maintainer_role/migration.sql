@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "maintainerMinPermission" TEXT NOT NULL DEFAULT 'maintain';
+ALTER TABLE "GuildConfig" ADD COLUMN "maintainerRoleId" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "forkerRoleId" TEXT;
+ALTER TABLE "GuildConfig" ADD COLUMN "watcherRoleId" TEXT;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "EarlyStargazerRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "starredBefore" DATETIME,
+    "maxRank" INTEGER,
+    "roleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    CONSTRAINT "EarlyStargazerRule_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "EarlyStargazerRule_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "FollowedRepository" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "GuildConfig" ADD COLUMN "activeContributorDays" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "GuildConfig" ADD COLUMN "activeContributorRoleId" TEXT;
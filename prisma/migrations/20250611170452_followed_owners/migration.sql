@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "FollowedOwner" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "login" TEXT NOT NULL,
+    "includePattern" TEXT NOT NULL DEFAULT '',
+    "excludePattern" TEXT NOT NULL DEFAULT '',
+    "topic" TEXT NOT NULL DEFAULT '',
+    "includeArchived" BOOLEAN NOT NULL DEFAULT false,
+    "includeForks" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    CONSTRAINT "FollowedOwner_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_FollowedRepository" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "guildConfigId" TEXT NOT NULL,
+    "followedOwnerId" TEXT,
+    CONSTRAINT "FollowedRepository_guildConfigId_fkey" FOREIGN KEY ("guildConfigId") REFERENCES "GuildConfig" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "FollowedRepository_followedOwnerId_fkey" FOREIGN KEY ("followedOwnerId") REFERENCES "FollowedOwner" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_FollowedRepository" ("createdAt", "guildConfigId", "id", "name", "owner") SELECT "createdAt", "guildConfigId", "id", "name", "owner" FROM "FollowedRepository";
+DROP TABLE "FollowedRepository";
+ALTER TABLE "new_FollowedRepository" RENAME TO "FollowedRepository";
+CREATE UNIQUE INDEX "FollowedRepository_guildConfigId_owner_name_key" ON "FollowedRepository"("guildConfigId", "owner", "name");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FollowedOwner_guildConfigId_login_key" ON "FollowedOwner"("guildConfigId", "login");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "FollowedRepository" ADD COLUMN "webhookSecret" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "GitHubResponseCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "url" TEXT NOT NULL,
+    "accept" TEXT NOT NULL,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "linkHeader" TEXT,
+    "body" TEXT NOT NULL,
+    "usedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GitHubResponseCache_url_accept_key" ON "GitHubResponseCache"("url", "accept");
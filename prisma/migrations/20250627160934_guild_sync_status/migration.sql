@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "GuildSyncHistory" ADD COLUMN "failedRepos" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "GuildSyncHistory" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'running';
+
+-- Backfill the status of earlier syncs
+UPDATE "GuildSyncHistory" SET "status" = CASE
+    WHEN "success" THEN 'success'
+    WHEN "completedAt" IS NOT NULL THEN 'failed'
+    ELSE 'running'
+END;
@@ -11,13 +11,29 @@ import {
   ActivityType,
   PresenceData,
   ClientUser,
+  AttachmentBuilder,
 } from 'discord.js';
-import { prisma } from '../index';
+import { githubClient, prisma, roleSyncService } from '../index';
 import { createChildLogger, logError } from '../utils/logger';
 import { config } from '../config/config';
+import { REPOSITORY_ROLE_KINDS, SyncPreviewEntry } from '../services/role-sync';
+import { COLLABORATOR_PERMISSIONS } from '../services/github-api';
+import {
+  formatRuleExpression,
+  getRuleRepositories,
+  parseRuleExpression,
+  RuleExpression,
+  RuleParseError,
+} from '../services/rule-engine';
 
 const log = createChildLogger('bot');
 
+// Longest removal grace period a guild can configure
+const MAX_REMOVAL_GRACE_PERIOD_HOURS = 24 * 30; // 30 days
+
+// Longest activity window for the active contributor role
+const MAX_ACTIVE_CONTRIBUTOR_DAYS = 365;
+
 // Define command builders
 const commands = [
   new SlashCommandBuilder()
@@ -52,6 +68,176 @@ const commands = [
     .setDescription('Remove the configured stargazer role')
     .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
 
+  new SlashCommandBuilder()
+    .setName('setup-forker-role')
+    .setDescription('Set up a role for users who forked a followed repository')
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to forkers')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-forker-role')
+    .setDescription('Remove the configured forker role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-watcher-role')
+    .setDescription('Set up a role for users watching a followed repository')
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to watchers')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-watcher-role')
+    .setDescription('Remove the configured watcher role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-pr-author-role')
+    .setDescription(
+      'Set up a role for users who opened a pull request in a followed repository',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to pull request authors')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-pr-author-role')
+    .setDescription('Remove the configured pull request author role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-merged-pr-role')
+    .setDescription(
+      'Set up a role for users with a merged pull request in a followed repository',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to authors of merged pull requests')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-merged-pr-role')
+    .setDescription('Remove the configured merged pull request role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-issue-author-role')
+    .setDescription(
+      'Set up a role for users who opened an issue in a followed repository',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to issue authors')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('label')
+        .setDescription(
+          'Only count issues with this label, e.g. confirmed (any issue if empty)',
+        )
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-issue-author-role')
+    .setDescription('Remove the configured issue author role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-reviewer-role')
+    .setDescription(
+      'Set up a role for users who reviewed a pull request in a followed repository',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to reviewers')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-reviewer-role')
+    .setDescription('Remove the configured reviewer role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-maintainer-role')
+    .setDescription(
+      'Set up a role for collaborators with a given permission on a followed repository',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to maintainers')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('min-permission')
+        .setDescription('Minimum repository permission (default: maintain)')
+        .setRequired(false)
+        .addChoices(
+          ...COLLABORATOR_PERMISSIONS.map((permission) => ({
+            name: permission,
+            value: permission,
+          })),
+        ),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-maintainer-role')
+    .setDescription('Remove the configured maintainer role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('setup-active-contributor-role')
+    .setDescription(
+      'Set up a role for users who committed to a followed repository recently',
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to active contributors')
+        .setRequired(true),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName('days')
+        .setDescription(
+          'How many days a commit keeps someone active (default: 30)',
+        )
+        .setMinValue(1)
+        .setMaxValue(MAX_ACTIVE_CONTRIBUTOR_DAYS)
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-active-contributor-role')
+    .setDescription('Remove the configured active contributor role')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
   new SlashCommandBuilder()
     .setName('show-config')
     .setDescription('Show current role configuration for this server')
@@ -95,54 +281,605 @@ const commands = [
     )
     .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
 
+  new SlashCommandBuilder()
+    .setName('follow-owner')
+    .setDescription(
+      'Follow every repository of a GitHub organization or user, including new ones',
+    )
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription('GitHub organization or username')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('include')
+        .setDescription(
+          'Only repositories matching these comma-separated name globs (e.g. app-*)',
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('exclude')
+        .setDescription(
+          'Skip repositories matching these comma-separated name globs',
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('topic')
+        .setDescription('Only repositories with this topic')
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName('include-archived')
+        .setDescription('Also follow archived repositories (default: false)')
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName('include-forks')
+        .setDescription('Also follow forked repositories (default: false)')
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('unfollow-owner')
+    .setDescription(
+      'Stop following the repositories of a GitHub organization or user',
+    )
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription('GitHub organization or username')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('set-webhook-secret')
+    .setDescription(
+      'Set the secret of a GitHub webhook configured on a followed repository',
+    )
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription(
+          'GitHub username or organization that owns the repository',
+        )
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('Repository name')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('secret')
+        .setDescription(
+          'Webhook secret, leave empty to only accept the global secret',
+        )
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
   new SlashCommandBuilder()
     .setName('list-repositories')
     .setDescription('List all followed GitHub repositories')
     .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
-];
 
-export function createBot(token: string) {
-  const client = new Client({ intents: [GatewayIntentBits.Guilds] });
-  let statusInterval: NodeJS.Timeout | null = null;
-
-  // Extract status setting logic into a reusable function
-  const setCustomStatus = async (user: ClientUser) => {
-    if (!config.discord.botStatus.text) return;
+  new SlashCommandBuilder()
+    .setName('add-repository-role')
+    .setDescription('Assign a role based on a relationship with one repository')
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription(
+          'GitHub username or organization that owns the repository',
+        )
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('Repository name')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('kind')
+        .setDescription('Relationship with the repository')
+        .setRequired(true)
+        .addChoices(
+          ...REPOSITORY_ROLE_KINDS.map((kind) => ({
+            name: formatRepositoryRoleKind(kind),
+            value: kind,
+          })),
+        ),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
 
-    try {
-      const statusType = config.discord.botStatus.type.toUpperCase();
-      let activityType: ActivityType;
+  new SlashCommandBuilder()
+    .setName('remove-repository-role')
+    .setDescription('Remove a repository specific role mapping')
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription(
+          'GitHub username or organization that owns the repository',
+        )
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('Repository name')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('kind')
+        .setDescription('Relationship with the repository')
+        .setRequired(true)
+        .addChoices(
+          ...REPOSITORY_ROLE_KINDS.map((kind) => ({
+            name: formatRepositoryRoleKind(kind),
+            value: kind,
+          })),
+        ),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The mapped role')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
 
-      switch (statusType) {
-        case 'PLAYING':
-          activityType = ActivityType.Playing;
-          break;
-        case 'STREAMING':
-          activityType = ActivityType.Streaming;
-          break;
-        case 'LISTENING':
-          activityType = ActivityType.Listening;
-          break;
-        case 'WATCHING':
-          activityType = ActivityType.Watching;
-          break;
-        case 'COMPETING':
-          activityType = ActivityType.Competing;
-          break;
-        default:
-          activityType = ActivityType.Watching;
-          log.warn(
-            { configuredType: statusType },
-            `Invalid status type provided. Using WATCHING instead.`,
-          );
-      }
+  new SlashCommandBuilder()
+    .setName('list-repository-roles')
+    .setDescription('List all repository specific role mappings')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
 
-      const presence = {
-        activities: [
-          {
-            name: config.discord.botStatus.text,
-            type: activityType,
-            url:
+  new SlashCommandBuilder()
+    .setName('add-contributor-tier')
+    .setDescription('Add a contributor role tier based on contribution count')
+    .addIntegerOption((option) =>
+      option
+        .setName('min-contributions')
+        .setDescription(
+          'Total contributions across followed repositories required for this tier',
+        )
+        .setMinValue(1)
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to contributors in this tier')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-contributor-tier')
+    .setDescription('Remove a contributor role tier')
+    .addIntegerOption((option) =>
+      option
+        .setName('min-contributions')
+        .setDescription('Contribution threshold of the tier to remove')
+        .setMinValue(1)
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-contributor-tiers')
+    .setDescription('List all contributor role tiers')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('add-early-stargazer-role')
+    .setDescription(
+      'Assign a role to early stargazers of a followed repository',
+    )
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription(
+          'GitHub username or organization that owns the repository',
+        )
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('Repository name')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to early stargazers')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('starred-before')
+        .setDescription('Only stars given before this date (YYYY-MM-DD)')
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName('first-stars')
+        .setDescription('Only the first N stars of the repository')
+        .setMinValue(1)
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-early-stargazer-role')
+    .setDescription(
+      'Remove the early stargazer rules of a role on a repository',
+    )
+    .addStringOption((option) =>
+      option
+        .setName('owner')
+        .setDescription(
+          'GitHub username or organization that owns the repository',
+        )
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('Repository name')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role of the rules to remove')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-early-stargazer-roles')
+    .setDescription('List all early stargazer rules')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('follow-organization')
+    .setDescription('Assign a role to members of a GitHub organization')
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('GitHub organization login')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to organization members')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('unfollow-organization')
+    .setDescription('Stop assigning a role to members of a GitHub organization')
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription('GitHub organization login')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-organizations')
+    .setDescription('List all followed GitHub organizations')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('add-team-role')
+    .setDescription('Assign a role to members of a GitHub team')
+    .addStringOption((option) =>
+      option
+        .setName('org')
+        .setDescription('GitHub organization login')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('team')
+        .setDescription('Team slug (e.g. maintainers)')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to team members')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-team-role')
+    .setDescription('Remove a team to role mapping')
+    .addStringOption((option) =>
+      option
+        .setName('org')
+        .setDescription('GitHub organization login')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('team')
+        .setDescription('Team slug (e.g. maintainers)')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role of the mapping to remove')
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-team-roles')
+    .setDescription('List all team to role mappings')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('add-sponsor-role')
+    .setDescription('Assign a role to GitHub Sponsors of an account')
+    .addStringOption((option) =>
+      option
+        .setName('account')
+        .setDescription('Sponsored GitHub user or organization login')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role to assign to sponsors')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('tier')
+        .setDescription(
+          'Only assign to sponsors of this tier (any tier if empty)',
+        )
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName('include-private')
+        .setDescription(
+          'Also assign to private sponsors, revealing their sponsorship (default: false)',
+        )
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('remove-sponsor-role')
+    .setDescription('Remove a sponsor role mapping')
+    .addStringOption((option) =>
+      option
+        .setName('account')
+        .setDescription('Sponsored GitHub user or organization login')
+        .setRequired(true),
+    )
+    .addRoleOption((option) =>
+      option
+        .setName('role')
+        .setDescription('The role of the mapping to remove')
+        .setRequired(true),
+    )
+    .addStringOption((option) =>
+      option
+        .setName('tier')
+        .setDescription('Tier of the mapping to remove (any tier if empty)')
+        .setRequired(false),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-sponsor-roles')
+    .setDescription('List all sponsor role mappings')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('rule')
+    .setDescription('Manage roles granted by rule expressions')
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('add')
+        .setDescription('Add a rule that grants a role')
+        .addStringOption((option) =>
+          option
+            .setName('name')
+            .setDescription('Name of the rule')
+            .setMaxLength(50)
+            .setRequired(true),
+        )
+        .addRoleOption((option) =>
+          option
+            .setName('role')
+            .setDescription('The role to assign to members matching the rule')
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('expression')
+            .setDescription(
+              'e.g. stargazer(owner/repo) AND count(contributor) >= 2',
+            )
+            .setMaxLength(500)
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('remove')
+        .setDescription('Remove a rule')
+        .addStringOption((option) =>
+          option
+            .setName('name')
+            .setDescription('Name of the rule to remove')
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName('list').setDescription('List all rules'),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('test')
+        .setDescription('Explain which clauses of a rule a member satisfies')
+        .addUserOption((option) =>
+          option
+            .setName('member')
+            .setDescription('The member to test')
+            .setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('name')
+            .setDescription('Name of a saved rule')
+            .setRequired(false),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('expression')
+            .setDescription('An expression to test instead of a saved rule')
+            .setMaxLength(500)
+            .setRequired(false),
+        ),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('preview-sync')
+    .setDescription(
+      'Show which roles a sync would add or remove without changing anything',
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('set-removal-mode')
+    .setDescription('Choose which managed roles the sync is allowed to remove')
+    .addStringOption((option) =>
+      option
+        .setName('mode')
+        .setDescription('Which roles may be removed from members')
+        .setRequired(true)
+        .addChoices(
+          { name: 'All managed roles', value: 'all' },
+          { name: 'Only roles granted by the bot', value: 'granted' },
+        ),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('set-grace-period')
+    .setDescription(
+      'Set how long members must stay ineligible before a role is removed',
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName('hours')
+        .setDescription('Grace period in hours, 0 removes roles immediately')
+        .setMinValue(0)
+        .setMaxValue(MAX_REMOVAL_GRACE_PERIOD_HOURS)
+        .setRequired(true),
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('list-pending-removals')
+    .setDescription('List roles waiting for the grace period before removal')
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+
+  new SlashCommandBuilder()
+    .setName('adopt-existing-roles')
+    .setDescription(
+      'Record managed roles currently held by linked members as granted by the bot',
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+];
+
+// Maximum number of planned changes listed in the preview message itself
+const PREVIEW_MESSAGE_CHANGE_LIMIT = 10;
+
+export function createBot(token: string) {
+  const intents = [GatewayIntentBits.Guilds];
+
+  // Member join events are only delivered with the privileged members intent
+  if (config.discord.syncOnMemberJoin) {
+    intents.push(GatewayIntentBits.GuildMembers);
+  }
+
+  const client = new Client({ intents });
+  let statusInterval: NodeJS.Timeout | null = null;
+
+  // Extract status setting logic into a reusable function
+  const setCustomStatus = async (user: ClientUser) => {
+    if (!config.discord.botStatus.text) return;
+
+    try {
+      const statusType = config.discord.botStatus.type.toUpperCase();
+      let activityType: ActivityType;
+
+      switch (statusType) {
+        case 'PLAYING':
+          activityType = ActivityType.Playing;
+          break;
+        case 'STREAMING':
+          activityType = ActivityType.Streaming;
+          break;
+        case 'LISTENING':
+          activityType = ActivityType.Listening;
+          break;
+        case 'WATCHING':
+          activityType = ActivityType.Watching;
+          break;
+        case 'COMPETING':
+          activityType = ActivityType.Competing;
+          break;
+        default:
+          activityType = ActivityType.Watching;
+          log.warn(
+            { configuredType: statusType },
+            `Invalid status type provided. Using WATCHING instead.`,
+          );
+      }
+
+      const presence = {
+        activities: [
+          {
+            name: config.discord.botStatus.text,
+            type: activityType,
+            url:
               statusType === 'STREAMING'
                 ? config.discord.botStatus.url || null
                 : null,
@@ -211,7 +948,31 @@ export function createBot(token: string) {
     }
   });
 
-  // Error handler for client
+  // Assign roles to linked users as soon as they join a guild
+  if (config.discord.syncOnMemberJoin) {
+    client.on(Events.GuildMemberAdd, async (member) => {
+      const memberLog = log.child({
+        guildId: member.guild.id,
+        userId: member.id,
+      });
+
+      try {
+        const result = await roleSyncService.syncMember(member);
+        if (result) {
+          memberLog.info(
+            { added: result.added, removed: result.removed },
+            'Synced roles for joining member',
+          );
+        }
+      } catch (error) {
+        logError(memberLog, 'Failed to sync roles for joining member', error);
+      }
+    });
+
+    log.info('Role sync on member join enabled');
+  }
+
+  // Error handler for client
   client.on('error', (error) => {
     logError(log, 'Discord client error occurred', error);
   });
@@ -275,6 +1036,54 @@ export function createBot(token: string) {
         case 'remove-stargazer-role':
           await removeStargazerRole(interaction);
           break;
+        case 'setup-forker-role':
+          await setupForkerRole(interaction);
+          break;
+        case 'remove-forker-role':
+          await removeForkerRole(interaction);
+          break;
+        case 'setup-watcher-role':
+          await setupWatcherRole(interaction);
+          break;
+        case 'remove-watcher-role':
+          await removeWatcherRole(interaction);
+          break;
+        case 'setup-pr-author-role':
+          await setupPullRequestAuthorRole(interaction);
+          break;
+        case 'remove-pr-author-role':
+          await removePullRequestAuthorRole(interaction);
+          break;
+        case 'setup-merged-pr-role':
+          await setupMergedPullRequestRole(interaction);
+          break;
+        case 'remove-merged-pr-role':
+          await removeMergedPullRequestRole(interaction);
+          break;
+        case 'setup-issue-author-role':
+          await setupIssueAuthorRole(interaction);
+          break;
+        case 'remove-issue-author-role':
+          await removeIssueAuthorRole(interaction);
+          break;
+        case 'setup-reviewer-role':
+          await setupReviewerRole(interaction);
+          break;
+        case 'remove-reviewer-role':
+          await removeReviewerRole(interaction);
+          break;
+        case 'setup-maintainer-role':
+          await setupMaintainerRole(interaction);
+          break;
+        case 'remove-maintainer-role':
+          await removeMaintainerRole(interaction);
+          break;
+        case 'setup-active-contributor-role':
+          await setupActiveContributorRole(interaction);
+          break;
+        case 'remove-active-contributor-role':
+          await removeActiveContributorRole(interaction);
+          break;
         case 'show-config':
           await showConfig(interaction);
           break;
@@ -284,9 +1093,90 @@ export function createBot(token: string) {
         case 'unfollow-repository':
           await unfollowRepository(interaction);
           break;
+        case 'follow-owner':
+          await followOwner(interaction);
+          break;
+        case 'unfollow-owner':
+          await unfollowOwner(interaction);
+          break;
+        case 'set-webhook-secret':
+          await setWebhookSecret(interaction);
+          break;
         case 'list-repositories':
           await listRepositories(interaction);
           break;
+        case 'add-repository-role':
+          await addRepositoryRole(interaction);
+          break;
+        case 'remove-repository-role':
+          await removeRepositoryRole(interaction);
+          break;
+        case 'list-repository-roles':
+          await listRepositoryRoles(interaction);
+          break;
+        case 'add-contributor-tier':
+          await addContributorTier(interaction);
+          break;
+        case 'remove-contributor-tier':
+          await removeContributorTier(interaction);
+          break;
+        case 'list-contributor-tiers':
+          await listContributorTiers(interaction);
+          break;
+        case 'add-early-stargazer-role':
+          await addEarlyStargazerRole(interaction);
+          break;
+        case 'remove-early-stargazer-role':
+          await removeEarlyStargazerRole(interaction);
+          break;
+        case 'list-early-stargazer-roles':
+          await listEarlyStargazerRoles(interaction);
+          break;
+        case 'follow-organization':
+          await followOrganization(interaction);
+          break;
+        case 'unfollow-organization':
+          await unfollowOrganization(interaction);
+          break;
+        case 'list-organizations':
+          await listOrganizations(interaction);
+          break;
+        case 'add-team-role':
+          await addTeamRole(interaction);
+          break;
+        case 'remove-team-role':
+          await removeTeamRole(interaction);
+          break;
+        case 'list-team-roles':
+          await listTeamRoles(interaction);
+          break;
+        case 'add-sponsor-role':
+          await addSponsorRole(interaction);
+          break;
+        case 'remove-sponsor-role':
+          await removeSponsorRole(interaction);
+          break;
+        case 'list-sponsor-roles':
+          await listSponsorRoles(interaction);
+          break;
+        case 'rule':
+          await handleRuleCommand(interaction);
+          break;
+        case 'preview-sync':
+          await previewSync(interaction);
+          break;
+        case 'set-removal-mode':
+          await setRemovalMode(interaction);
+          break;
+        case 'set-grace-period':
+          await setGracePeriod(interaction);
+          break;
+        case 'list-pending-removals':
+          await listPendingRemovals(interaction);
+          break;
+        case 'adopt-existing-roles':
+          await adoptExistingRoles(interaction);
+          break;
         default:
           commandLog.warn('Unknown command received');
           await interaction.reply({
@@ -476,348 +1366,2714 @@ async function removeStargazerRole(interaction: ChatInputCommandInteraction) {
   });
 }
 
-async function showConfig(interaction: ChatInputCommandInteraction) {
-  const config = await prisma.guildConfig.findUnique({
+async function setupForkerRole(interaction: ChatInputCommandInteraction) {
+  const role = interaction.options.getRole('role');
+
+  if (!role) {
+    await interaction.reply({
+      content: 'Please provide a valid role.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.upsert({
     where: { guildId: interaction.guild?.id },
-    include: {
-      repositories: {
-        select: {
-          id: true,
-        },
-      },
+    update: {
+      forkerRoleId: role.id,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild?.id,
+      forkerRoleId: role.id,
     },
   });
 
-  if (!config) {
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the forker role.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeForkerRole(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.forkerRoleId) {
     await interaction.reply({
-      content: 'No configuration found for this server.',
+      content: 'No forker role is currently configured.',
       flags: MessageFlags.Ephemeral,
     });
     return;
   }
 
-  let responseMessage = 'Current configuration:\n';
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      forkerRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
 
-  if (config.contributorRoleId) {
-    const contributorRole = interaction.guild?.roles.cache.get(
-      config.contributorRoleId,
-    );
-    responseMessage += `• Contributor Role: ${contributorRole ? contributorRole.name : 'Unknown Role'} (ID: ${config.contributorRoleId})\n`;
-  } else {
-    responseMessage += '• Contributor Role: Not configured\n';
+  await interaction.reply({
+    content: 'The forker role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupWatcherRole(interaction: ChatInputCommandInteraction) {
+  const role = interaction.options.getRole('role');
+
+  if (!role) {
+    await interaction.reply({
+      content: 'Please provide a valid role.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
   }
 
-  if (config.stargazerRoleId) {
-    const stargazerRole = interaction.guild?.roles.cache.get(
-      config.stargazerRoleId,
-    );
-    responseMessage += `• Stargazer Role: ${stargazerRole ? stargazerRole.name : 'Unknown Role'} (ID: ${config.stargazerRoleId})\n`;
-  } else {
-    responseMessage += '• Stargazer Role: Not configured\n';
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
   }
 
-  // Add repository count
-  responseMessage += `• Followed Repositories: ${config.repositories.length} (use /list-repositories to see details)`;
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild?.id },
+    update: {
+      watcherRoleId: role.id,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild?.id,
+      watcherRoleId: role.id,
+    },
+  });
 
   await interaction.reply({
-    content: responseMessage,
+    content: `Successfully set ${role.name} as the watcher role.`,
     flags: MessageFlags.Ephemeral,
   });
 }
 
-// Add error handling wrapper for database operations
-async function performDatabaseOperation<T>(
-  operation: () => Promise<T>,
-  errorMessage: string,
-  context: Record<string, unknown> = {},
-): Promise<T> {
-  try {
-    return await operation();
-  } catch (error) {
-    const dbLog = log.child(context);
-    logError(dbLog, errorMessage, error);
-    throw new Error(
-      `${errorMessage}: ${error instanceof Error ? error.message : String(error)}`,
-    );
+async function removeWatcherRole(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.watcherRoleId) {
+    await interaction.reply({
+      content: 'No watcher role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
   }
-}
 
-// Update each command handler with improved error handling - here's an example for followRepository:
-async function followRepository(interaction: ChatInputCommandInteraction) {
-  const owner = interaction.options.getString('owner', true);
-  const name = interaction.options.getString('name', true);
-  const guildId = interaction.guild?.id;
-  const userId = interaction.user.id;
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      watcherRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
 
-  const repoLog = log.child({
-    command: 'follow-repository',
-    owner,
-    name,
-    guildId,
-    userId,
+  await interaction.reply({
+    content: 'The watcher role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
   });
+}
 
-  if (!owner || !name) {
+async function setupPullRequestAuthorRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const role = interaction.options.getRole('role', true);
+
+  if (!interaction.guild) {
     await interaction.reply({
-      content: 'Please provide both repository owner and name.',
+      content: 'This command can only be used in a server.',
       flags: MessageFlags.Ephemeral,
     });
-    repoLog.warn('Missing repository parameters');
     return;
   }
 
-  // Validate repository format (simple check)
-  if (!/^[a-zA-Z0-9_.-]+$/.test(owner) || !/^[a-zA-Z0-9_.-]+$/.test(name)) {
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      pullRequestAuthorRoleId: role.id,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      pullRequestAuthorRoleId: role.id,
+    },
+  });
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the pull request author role.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removePullRequestAuthorRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.pullRequestAuthorRoleId) {
     await interaction.reply({
-      content: 'Invalid repository owner or name format.',
+      content: 'No pull request author role is currently configured.',
       flags: MessageFlags.Ephemeral,
     });
-    repoLog.warn('Invalid repository format');
     return;
   }
 
-  try {
-    if (!guildId) {
-      await interaction.reply({
-        content: 'This command can only be used in a server.',
-        flags: MessageFlags.Ephemeral,
-      });
-      return;
-    }
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      pullRequestAuthorRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
 
-    // Show a "thinking" state while processing
-    await interaction.deferReply({
+  await interaction.reply({
+    content:
+      'The pull request author role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupMergedPullRequestRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const role = interaction.options.getRole('role', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
       flags: MessageFlags.Ephemeral,
     });
+    return;
+  }
 
-    // Create or get guild config
-    const guildConfig = await performDatabaseOperation(
-      () =>
-        prisma.guildConfig.upsert({
-          where: { guildId: guildId },
-          update: {
-            updatedAt: new Date(),
-          },
-          create: {
-            guildId: guildId,
-          },
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      mergedPullRequestRoleId: role.id,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      mergedPullRequestRoleId: role.id,
+    },
+  });
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the merged pull request role.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeMergedPullRequestRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.mergedPullRequestRoleId) {
+    await interaction.reply({
+      content: 'No merged pull request role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      mergedPullRequestRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  await interaction.reply({
+    content:
+      'The merged pull request role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupIssueAuthorRole(interaction: ChatInputCommandInteraction) {
+  const role = interaction.options.getRole('role', true);
+  const label = interaction.options.getString('label')?.trim() || null;
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      issueAuthorRoleId: role.id,
+      issueAuthorLabel: label,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      issueAuthorRoleId: role.id,
+      issueAuthorLabel: label,
+    },
+  });
+
+  await interaction.reply({
+    content: label
+      ? `Successfully set ${role.name} as the role for authors of issues labeled "${label}".`
+      : `Successfully set ${role.name} as the issue author role.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeIssueAuthorRole(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.issueAuthorRoleId) {
+    await interaction.reply({
+      content: 'No issue author role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      issueAuthorRoleId: null,
+      issueAuthorLabel: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  await interaction.reply({
+    content: 'The issue author role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupReviewerRole(interaction: ChatInputCommandInteraction) {
+  const role = interaction.options.getRole('role', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      reviewerRoleId: role.id,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      reviewerRoleId: role.id,
+    },
+  });
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the reviewer role.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeReviewerRole(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.reviewerRoleId) {
+    await interaction.reply({
+      content: 'No reviewer role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      reviewerRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  await interaction.reply({
+    content: 'The reviewer role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupMaintainerRole(interaction: ChatInputCommandInteraction) {
+  const role = interaction.options.getRole('role', true);
+  const minPermission =
+    interaction.options.getString('min-permission') ?? 'maintain';
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      maintainerRoleId: role.id,
+      maintainerMinPermission: minPermission,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      maintainerRoleId: role.id,
+      maintainerMinPermission: minPermission,
+    },
+  });
+
+  let responseMessage = `Successfully set ${role.name} as the role for collaborators with ${minPermission} or higher permission.`;
+  // Collaborators can only be listed with a token
+  if (!config.github.token) {
+    responseMessage +=
+      '\nNo GitHub token is configured, so collaborators cannot be read until GITHUB_TOKEN is set to a token with push access to the followed repositories.';
+  }
+
+  await interaction.reply({
+    content: responseMessage,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeMaintainerRole(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.maintainerRoleId) {
+    await interaction.reply({
+      content: 'No maintainer role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      maintainerRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  await interaction.reply({
+    content: 'The maintainer role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setupActiveContributorRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const role = interaction.options.getRole('role', true);
+  const days = interaction.options.getInteger('days') ?? 30;
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      activeContributorRoleId: role.id,
+      activeContributorDays: days,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      activeContributorRoleId: role.id,
+      activeContributorDays: days,
+    },
+  });
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the role for users who committed to a followed repository in the last ${days} day(s). The role is removed once they have been inactive for longer.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeActiveContributorRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+  });
+
+  if (!config || !config.activeContributorRoleId) {
+    await interaction.reply({
+      content: 'No active contributor role is currently configured.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.guildConfig.update({
+    where: { guildId: interaction.guild?.id },
+    data: {
+      activeContributorRoleId: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  await interaction.reply({
+    content: 'The active contributor role has been removed from configuration.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function showConfig(interaction: ChatInputCommandInteraction) {
+  const config = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+    include: {
+      repositories: {
+        select: {
+          id: true,
+        },
+      },
+      roleMappings: {
+        select: {
+          id: true,
+        },
+      },
+      contributorTiers: {
+        select: {
+          id: true,
+        },
+      },
+      organizations: {
+        select: {
+          id: true,
+        },
+      },
+      teamRoleMappings: {
+        select: {
+          id: true,
+        },
+      },
+      sponsorRoleMappings: {
+        select: {
+          id: true,
+        },
+      },
+      earlyStargazerRules: {
+        select: {
+          id: true,
+        },
+      },
+      roleRules: {
+        select: {
+          id: true,
+        },
+      },
+      pendingRemovals: {
+        select: {
+          id: true,
+        },
+      },
+    },
+  });
+
+  if (!config) {
+    await interaction.reply({
+      content: 'No configuration found for this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  let responseMessage = 'Current configuration:\n';
+
+  if (config.contributorRoleId) {
+    const contributorRole = interaction.guild?.roles.cache.get(
+      config.contributorRoleId,
+    );
+    responseMessage += `• Contributor Role: ${contributorRole ? contributorRole.name : 'Unknown Role'} (ID: ${config.contributorRoleId})\n`;
+  } else {
+    responseMessage += '• Contributor Role: Not configured\n';
+  }
+
+  if (config.stargazerRoleId) {
+    const stargazerRole = interaction.guild?.roles.cache.get(
+      config.stargazerRoleId,
+    );
+    responseMessage += `• Stargazer Role: ${stargazerRole ? stargazerRole.name : 'Unknown Role'} (ID: ${config.stargazerRoleId})\n`;
+  } else {
+    responseMessage += '• Stargazer Role: Not configured\n';
+  }
+
+  if (config.forkerRoleId) {
+    const forkerRole = interaction.guild?.roles.cache.get(config.forkerRoleId);
+    responseMessage += `• Forker Role: ${forkerRole ? forkerRole.name : 'Unknown Role'} (ID: ${config.forkerRoleId})\n`;
+  } else {
+    responseMessage += '• Forker Role: Not configured\n';
+  }
+
+  if (config.watcherRoleId) {
+    const watcherRole = interaction.guild?.roles.cache.get(
+      config.watcherRoleId,
+    );
+    responseMessage += `• Watcher Role: ${watcherRole ? watcherRole.name : 'Unknown Role'} (ID: ${config.watcherRoleId})\n`;
+  } else {
+    responseMessage += '• Watcher Role: Not configured\n';
+  }
+
+  if (config.pullRequestAuthorRoleId) {
+    const pullRequestAuthorRole = interaction.guild?.roles.cache.get(
+      config.pullRequestAuthorRoleId,
+    );
+    responseMessage += `• Pull Request Author Role: ${pullRequestAuthorRole ? pullRequestAuthorRole.name : 'Unknown Role'} (ID: ${config.pullRequestAuthorRoleId})\n`;
+  } else {
+    responseMessage += '• Pull Request Author Role: Not configured\n';
+  }
+
+  if (config.mergedPullRequestRoleId) {
+    const mergedPullRequestRole = interaction.guild?.roles.cache.get(
+      config.mergedPullRequestRoleId,
+    );
+    responseMessage += `• Merged Pull Request Role: ${mergedPullRequestRole ? mergedPullRequestRole.name : 'Unknown Role'} (ID: ${config.mergedPullRequestRoleId})\n`;
+  } else {
+    responseMessage += '• Merged Pull Request Role: Not configured\n';
+  }
+
+  if (config.issueAuthorRoleId) {
+    const issueAuthorRole = interaction.guild?.roles.cache.get(
+      config.issueAuthorRoleId,
+    );
+    const labelFilter = config.issueAuthorLabel
+      ? `, label: ${config.issueAuthorLabel}`
+      : '';
+    responseMessage += `• Issue Author Role: ${issueAuthorRole ? issueAuthorRole.name : 'Unknown Role'} (ID: ${config.issueAuthorRoleId}${labelFilter})\n`;
+  } else {
+    responseMessage += '• Issue Author Role: Not configured\n';
+  }
+
+  if (config.reviewerRoleId) {
+    const reviewerRole = interaction.guild?.roles.cache.get(
+      config.reviewerRoleId,
+    );
+    responseMessage += `• Reviewer Role: ${reviewerRole ? reviewerRole.name : 'Unknown Role'} (ID: ${config.reviewerRoleId})\n`;
+  } else {
+    responseMessage += '• Reviewer Role: Not configured\n';
+  }
+
+  if (config.maintainerRoleId) {
+    const maintainerRole = interaction.guild?.roles.cache.get(
+      config.maintainerRoleId,
+    );
+    responseMessage += `• Maintainer Role: ${maintainerRole ? maintainerRole.name : 'Unknown Role'} (ID: ${config.maintainerRoleId}, min permission: ${config.maintainerMinPermission})\n`;
+  } else {
+    responseMessage += '• Maintainer Role: Not configured\n';
+  }
+
+  if (config.activeContributorRoleId) {
+    const activeContributorRole = interaction.guild?.roles.cache.get(
+      config.activeContributorRoleId,
+    );
+    responseMessage += `• Active Contributor Role: ${activeContributorRole ? activeContributorRole.name : 'Unknown Role'} (ID: ${config.activeContributorRoleId}, window: ${config.activeContributorDays} day(s))\n`;
+  } else {
+    responseMessage += '• Active Contributor Role: Not configured\n';
+  }
+
+  // Add repository count
+  responseMessage += `• Followed Repositories: ${config.repositories.length} (use /list-repositories to see details)\n`;
+  responseMessage += `• Repository Role Mappings: ${config.roleMappings.length} (use /list-repository-roles to see details)\n`;
+  responseMessage += `• Contributor Tiers: ${config.contributorTiers.length} (use /list-contributor-tiers to see details)\n`;
+  responseMessage += `• Early Stargazer Rules: ${config.earlyStargazerRules.length} (use /list-early-stargazer-roles to see details)\n`;
+  responseMessage += `• Followed Organizations: ${config.organizations.length} (use /list-organizations to see details)\n`;
+  responseMessage += `• Team Role Mappings: ${config.teamRoleMappings.length} (use /list-team-roles to see details)\n`;
+  responseMessage += `• Sponsor Role Mappings: ${config.sponsorRoleMappings.length} (use /list-sponsor-roles to see details)\n`;
+  responseMessage += `• Role Rules: ${config.roleRules.length} (use /rule list to see details)\n`;
+  responseMessage += `• Removal Mode: ${config.removeOnlyGrantedRoles ? 'Only roles granted by the bot' : 'All managed roles'}\n`;
+  responseMessage += `• Removal Grace Period: ${config.removalGracePeriodHours > 0 ? `${config.removalGracePeriodHours} hour(s)` : 'None'}\n`;
+  responseMessage += `• Pending Removals: ${config.pendingRemovals.length} (use /list-pending-removals to see details)`;
+
+  await interaction.reply({
+    content: responseMessage,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+// Add error handling wrapper for database operations
+async function performDatabaseOperation<T>(
+  operation: () => Promise<T>,
+  errorMessage: string,
+  context: Record<string, unknown> = {},
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    const dbLog = log.child(context);
+    logError(dbLog, errorMessage, error);
+    throw new Error(
+      `${errorMessage}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// Update each command handler with improved error handling - here's an example for followRepository:
+async function followRepository(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+  const guildId = interaction.guild?.id;
+  const userId = interaction.user.id;
+
+  const repoLog = log.child({
+    command: 'follow-repository',
+    owner,
+    name,
+    guildId,
+    userId,
+  });
+
+  if (!owner || !name) {
+    await interaction.reply({
+      content: 'Please provide both repository owner and name.',
+      flags: MessageFlags.Ephemeral,
+    });
+    repoLog.warn('Missing repository parameters');
+    return;
+  }
+
+  // Validate repository format (simple check)
+  if (!/^[a-zA-Z0-9_.-]+$/.test(owner) || !/^[a-zA-Z0-9_.-]+$/.test(name)) {
+    await interaction.reply({
+      content: 'Invalid repository owner or name format.',
+      flags: MessageFlags.Ephemeral,
+    });
+    repoLog.warn('Invalid repository format');
+    return;
+  }
+
+  try {
+    if (!guildId) {
+      await interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // Show a "thinking" state while processing
+    await interaction.deferReply({
+      flags: MessageFlags.Ephemeral,
+    });
+
+    // Create or get guild config
+    const guildConfig = await performDatabaseOperation(
+      () =>
+        prisma.guildConfig.upsert({
+          where: { guildId: guildId },
+          update: {
+            updatedAt: new Date(),
+          },
+          create: {
+            guildId: guildId,
+          },
         }),
       'Failed to create or update guild config',
       { command: 'follow-repository', guildId },
     );
 
-    // Check if repository is already being followed
-    const existingRepo = await performDatabaseOperation(
-      () =>
-        prisma.followedRepository.findFirst({
-          where: {
-            guildConfigId: guildConfig.id,
-            owner: {
-              equals: owner.toLowerCase(),
-            },
-            name: {
-              equals: name.toLowerCase(),
-            },
-          },
-        }),
-      'Failed to check if repository exists',
-      { owner, name, guildId },
-    );
+    // Check if repository is already being followed
+    const existingRepo = await performDatabaseOperation(
+      () =>
+        prisma.followedRepository.findFirst({
+          where: {
+            guildConfigId: guildConfig.id,
+            owner: {
+              equals: owner.toLowerCase(),
+            },
+            name: {
+              equals: name.toLowerCase(),
+            },
+          },
+        }),
+      'Failed to check if repository exists',
+      { owner, name, guildId },
+    );
+
+    if (existingRepo) {
+      await interaction.editReply({
+        content: `Repository ${owner}/${name} is already being followed.`,
+      });
+      return;
+    }
+
+    // Try to validate if repository exists
+    try {
+      const repoCheckResponse = await fetch(
+        `https://api.github.com/repos/${owner}/${name}`,
+        {
+          headers: {
+            Accept: 'application/vnd.github.v3+json',
+            'User-Agent': 'discord-github-roles',
+          },
+        },
+      );
+
+      if (!repoCheckResponse.ok) {
+        const errorData = await repoCheckResponse.json().catch(() => ({}));
+        log.warn('GitHub API reported repository does not exist', {
+          owner,
+          name,
+          statusCode: repoCheckResponse.status,
+          response: errorData,
+        });
+
+        await interaction.editReply({
+          content: `Repository ${owner}/${name} doesn't seem to exist or is not accessible. Please check the name and try again.`,
+        });
+        return;
+      }
+    } catch (fetchError) {
+      log.error('Failed to fetch repository from GitHub API', {
+        owner,
+        name,
+        error:
+          fetchError instanceof Error
+            ? { message: fetchError.message, stack: fetchError.stack }
+            : String(fetchError),
+      });
+
+      await interaction.editReply({
+        content: `Unable to verify repository ${owner}/${name}. GitHub API may be unavailable. Please try again later.`,
+      });
+      return;
+    }
+
+    // Add repository to followed list
+    await performDatabaseOperation(
+      () =>
+        prisma.followedRepository.create({
+          data: {
+            owner: owner.toLowerCase(),
+            name: name.toLowerCase(),
+            guildConfigId: guildConfig.id,
+          },
+        }),
+      'Failed to add repository to database',
+      { owner, name, guildId },
+    );
+
+    repoLog.info('New repository followed');
+    await interaction.editReply({
+      content: `Now following GitHub repository: ${owner}/${name}`,
+    });
+  } catch (error) {
+    logError(repoLog, 'Error following repository', error);
+
+    // Make sure we reply to the user
+    if (interaction.deferred) {
+      await interaction
+        .editReply({
+          content: `Failed to follow repository ${owner}/${name}. Please try again later.`,
+        })
+        .catch((e) => {
+          log.error('Failed to edit reply with error message', {
+            originalError:
+              error instanceof Error ? error.message : String(error),
+            replyError: e instanceof Error ? e.message : String(e),
+          });
+        });
+    } else {
+      await interaction
+        .reply({
+          content: `Failed to follow repository ${owner}/${name}. Please try again later.`,
+          flags: MessageFlags.Ephemeral,
+        })
+        .catch((e) => {
+          log.error('Failed to reply with error message', {
+            originalError:
+              error instanceof Error ? error.message : String(error),
+            replyError: e instanceof Error ? e.message : String(e),
+          });
+        });
+    }
+  }
+}
+
+async function unfollowRepository(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+
+  if (!owner || !name) {
+    await interaction.reply({
+      content: 'Please provide both repository owner and name.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  try {
+    // Find the guild config
+    const guildConfig = await prisma.guildConfig.findUnique({
+      where: { guildId: interaction.guild?.id },
+    });
+
+    if (!guildConfig) {
+      await interaction.reply({
+        content: 'No configuration found for this server.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // Repositories of a followed owner would be followed again on next sync
+    const ownedRepo = await prisma.followedRepository.findFirst({
+      where: {
+        guildConfigId: guildConfig.id,
+        owner: owner.toLowerCase(),
+        name: name.toLowerCase(),
+        followedOwnerId: { not: null },
+      },
+    });
+
+    if (ownedRepo) {
+      await interaction.reply({
+        content: `Repository ${owner}/${name} is followed through /follow-owner. Add it to the exclude filter with /follow-owner or use /unfollow-owner instead.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // Find and delete the repository
+    const deletedRepo = await prisma.followedRepository.deleteMany({
+      where: {
+        guildConfigId: guildConfig.id,
+        owner: {
+          equals: owner.toLowerCase(),
+        },
+        name: {
+          equals: name.toLowerCase(),
+        },
+      },
+    });
+
+    if (deletedRepo.count > 0) {
+      await interaction.reply({
+        content: `Stopped following GitHub repository: ${owner}/${name}`,
+        flags: MessageFlags.Ephemeral,
+      });
+    } else {
+      await interaction.reply({
+        content: `Repository ${owner}/${name} was not being followed.`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  } catch (error) {
+    console.error('Error unfollowing repository:', error);
+    await interaction.reply({
+      content: `Failed to unfollow repository ${owner}/${name}. Please try again later.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listRepositories(interaction: ChatInputCommandInteraction) {
+  try {
+    // Find the guild config with repositories
+    const guildConfig = await prisma.guildConfig.findUnique({
+      where: { guildId: interaction.guild?.id },
+      include: {
+        repositories: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        followedOwners: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (
+      !guildConfig ||
+      (guildConfig.repositories.length === 0 &&
+        guildConfig.followedOwners.length === 0)
+    ) {
+      await interaction.reply({
+        content: 'No repositories are currently being followed in this server.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    let responseMessage = '';
+
+    const individualRepos = guildConfig.repositories.filter(
+      (repo) => !repo.followedOwnerId,
+    );
+    if (individualRepos.length > 0) {
+      const repoList = individualRepos
+        .map((repo, index) => `${index + 1}. ${repo.owner}/${repo.name}`)
+        .join('\n');
+      responseMessage += `**Followed GitHub Repositories:**\n${repoList}\n`;
+    }
+
+    // Show the repositories each owner currently resolves to
+    for (const followedOwner of guildConfig.followedOwners) {
+      const ownerRepos = guildConfig.repositories
+        .filter((repo) => repo.followedOwnerId === followedOwner.id)
+        .map((repo) => repo.name);
+      responseMessage += `\n**${followedOwner.login}** (${formatOwnerFilters(followedOwner)}): ${ownerRepos.length} repositories\n`;
+      responseMessage += ownerRepos.length > 0 ? ownerRepos.join(', ') : 'None';
+      responseMessage += '\n';
+    }
+
+    await interaction.reply({
+      // Large organizations could exceed Discord's message length limit
+      content: responseMessage.slice(0, 2000),
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    console.error('Error listing repositories:', error);
+    await interaction.reply({
+      content: 'Failed to list repositories. Please try again later.',
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+function formatOwnerFilters(followedOwner: {
+  includePattern: string;
+  excludePattern: string;
+  topic: string;
+  includeArchived: boolean;
+  includeForks: boolean;
+}) {
+  const filters: string[] = [];
+  if (followedOwner.includePattern) {
+    filters.push(`include ${followedOwner.includePattern}`);
+  }
+  if (followedOwner.excludePattern) {
+    filters.push(`exclude ${followedOwner.excludePattern}`);
+  }
+  if (followedOwner.topic) {
+    filters.push(`topic ${followedOwner.topic}`);
+  }
+  filters.push(
+    followedOwner.includeArchived ? 'with archived' : 'without archived',
+  );
+  filters.push(followedOwner.includeForks ? 'with forks' : 'without forks');
+  return filters.join(', ');
+}
+
+async function followOwner(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true).toLowerCase();
+  const filters = {
+    includePattern: interaction.options.getString('include') ?? '',
+    excludePattern: interaction.options.getString('exclude') ?? '',
+    topic: (interaction.options.getString('topic') ?? '').toLowerCase(),
+    includeArchived:
+      interaction.options.getBoolean('include-archived') ?? false,
+    includeForks: interaction.options.getBoolean('include-forks') ?? false,
+  };
+  const guildId = interaction.guild?.id;
+
+  const ownerLog = log.child({
+    command: 'follow-owner',
+    owner,
+    guildId,
+    userId: interaction.user.id,
+  });
+
+  if (!guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  // Validate owner login format (simple check)
+  if (!/^[a-zA-Z0-9-]+$/.test(owner)) {
+    await interaction.reply({
+      content: 'Invalid organization or username format.',
+      flags: MessageFlags.Ephemeral,
+    });
+    ownerLog.warn('Invalid owner format');
+    return;
+  }
+
+  // Listing every repository can take a while for large organizations
+  await interaction.deferReply({
+    flags: MessageFlags.Ephemeral,
+  });
+
+  const repositories = await githubClient.getOwnerRepositories(owner);
+  if (!repositories) {
+    await interaction.editReply({
+      content: `GitHub organization or user ${owner} doesn't seem to exist. Please check the name and try again.`,
+    });
+    return;
+  }
+
+  const guildConfig = await prisma.guildConfig.upsert({
+    where: { guildId },
+    update: {
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId,
+    },
+  });
+
+  // Following an owner again updates its filters
+  const followedOwner = await prisma.followedOwner.upsert({
+    where: {
+      guildConfigId_login: {
+        guildConfigId: guildConfig.id,
+        login: owner,
+      },
+    },
+    update: filters,
+    create: {
+      guildConfigId: guildConfig.id,
+      login: owner,
+      ...filters,
+    },
+  });
+
+  await roleSyncService.resolveFollowedOwners(guildId);
+
+  const resolvedCount = await prisma.followedRepository.count({
+    where: { followedOwnerId: followedOwner.id },
+  });
+
+  ownerLog.info({ resolvedCount, ...filters }, 'Owner followed');
+
+  await interaction.editReply({
+    content: `Now following ${resolvedCount} repositories of ${owner} (${formatOwnerFilters(followedOwner)}). New repositories are picked up on every sync; use /list-repositories to see them.`,
+  });
+}
+
+async function unfollowOwner(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true).toLowerCase();
+
+  // Repositories with role mappings or early stargazer rules are kept as
+  // individually followed repositories, so their roles aren't deleted
+  const keptRepos = await prisma.followedRepository.updateMany({
+    where: {
+      followedOwner: {
+        login: owner,
+        guildConfig: { guildId: interaction.guild?.id },
+      },
+      OR: [
+        { roleMappings: { some: {} } },
+        { earlyStargazerRules: { some: {} } },
+      ],
+    },
+    data: { followedOwnerId: null },
+  });
+
+  // Other repositories followed through the owner are removed with it
+  const deletedOwners = await prisma.followedOwner.deleteMany({
+    where: {
+      login: owner,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  if (deletedOwners.count > 0) {
+    await interaction.reply({
+      content: `Stopped following the repositories of ${owner}. Repositories followed individually are kept${keptRepos.count > 0 ? `, as are ${keptRepos.count} repositories with role mappings or early stargazer rules` : ''}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `${owner} was not being followed.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function setWebhookSecret(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true).toLowerCase();
+  const name = interaction.options.getString('name', true).toLowerCase();
+  const secret = interaction.options.getString('secret');
+
+  const updatedRepos = await prisma.followedRepository.updateMany({
+    where: {
+      owner,
+      name,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    data: { webhookSecret: secret },
+  });
+
+  if (updatedRepos.count === 0) {
+    await interaction.reply({
+      content: `Repository ${owner}/${name} is not being followed. Use /follow-repository to follow it first.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await interaction.reply({
+    content: secret
+      ? `Webhook deliveries for ${owner}/${name} are now verified with the new secret. Point the webhook at ${config.baseUrl}/webhooks/github.`
+      : `Removed the webhook secret of ${owner}/${name}. Only deliveries signed with the global secret are accepted.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+function formatRepositoryRoleKind(kind: string) {
+  return kind.charAt(0).toUpperCase() + kind.slice(1);
+}
+
+async function addRepositoryRole(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+  const kind = interaction.options.getString('kind', true);
+  const role = interaction.options.getRole('role', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const guildConfig = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild.id },
+  });
+
+  const repository = guildConfig
+    ? await prisma.followedRepository.findUnique({
+        where: {
+          guildConfigId_owner_name: {
+            guildConfigId: guildConfig.id,
+            owner: owner.toLowerCase(),
+            name: name.toLowerCase(),
+          },
+        },
+      })
+    : null;
+
+  if (!guildConfig || !repository) {
+    await interaction.reply({
+      content: `Repository ${owner}/${name} is not being followed. Use /follow-repository to follow it first.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const existingMapping = await prisma.repositoryRoleMapping.findUnique({
+    where: {
+      repositoryId_kind_roleId: {
+        repositoryId: repository.id,
+        kind,
+        roleId: role.id,
+      },
+    },
+  });
+
+  if (existingMapping) {
+    await interaction.reply({
+      content: `${role.name} is already assigned to ${kind}s of ${repository.owner}/${repository.name}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.repositoryRoleMapping.create({
+    data: {
+      kind,
+      roleId: role.id,
+      guildConfigId: guildConfig.id,
+      repositoryId: repository.id,
+    },
+  });
+
+  log.info(
+    {
+      guildId: interaction.guild.id,
+      repository: `${repository.owner}/${repository.name}`,
+      kind,
+      roleId: role.id,
+    },
+    'Repository role mapping added',
+  );
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the role for ${kind}s of ${repository.owner}/${repository.name}.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeRepositoryRole(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+  const kind = interaction.options.getString('kind', true);
+  const role = interaction.options.getRole('role', true);
+
+  const deletedMappings = await prisma.repositoryRoleMapping.deleteMany({
+    where: {
+      kind,
+      roleId: role.id,
+      guildConfig: { guildId: interaction.guild?.id },
+      repository: {
+        owner: owner.toLowerCase(),
+        name: name.toLowerCase(),
+      },
+    },
+  });
+
+  if (deletedMappings.count > 0) {
+    await interaction.reply({
+      content: `${role.name} is no longer assigned to ${kind}s of ${owner}/${name}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `No mapping found for ${role.name} on ${kind}s of ${owner}/${name}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listRepositoryRoles(interaction: ChatInputCommandInteraction) {
+  const mappings = await prisma.repositoryRoleMapping.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    include: {
+      repository: true,
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  if (mappings.length === 0) {
+    await interaction.reply({
+      content: 'No repository specific roles are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const mappingList = mappings
+    .map((mapping, index) => {
+      const role = interaction.guild?.roles.cache.get(mapping.roleId);
+      return `${index + 1}. ${mapping.repository.owner}/${mapping.repository.name} (${formatRepositoryRoleKind(mapping.kind)}) → ${role ? role.name : 'Unknown Role'} (ID: ${mapping.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Repository Role Mappings:**\n${mappingList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function addContributorTier(interaction: ChatInputCommandInteraction) {
+  const minContributions = interaction.options.getInteger(
+    'min-contributions',
+    true,
+  );
+  const role = interaction.options.getRole('role', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const guildConfig = await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+    },
+  });
+
+  // Re-adding a threshold replaces the role of the existing tier
+  await prisma.contributorTier.upsert({
+    where: {
+      guildConfigId_minContributions: {
+        guildConfigId: guildConfig.id,
+        minContributions,
+      },
+    },
+    update: {
+      roleId: role.id,
+    },
+    create: {
+      guildConfigId: guildConfig.id,
+      minContributions,
+      roleId: role.id,
+    },
+  });
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the role for contributors with ${minContributions}+ contributions.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeContributorTier(interaction: ChatInputCommandInteraction) {
+  const minContributions = interaction.options.getInteger(
+    'min-contributions',
+    true,
+  );
+
+  const deletedTiers = await prisma.contributorTier.deleteMany({
+    where: {
+      minContributions,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  if (deletedTiers.count > 0) {
+    await interaction.reply({
+      content: `The ${minContributions}+ contributions tier has been removed from configuration.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `No contributor tier is configured for ${minContributions}+ contributions.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listContributorTiers(interaction: ChatInputCommandInteraction) {
+  const tiers = await prisma.contributorTier.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    orderBy: {
+      minContributions: 'asc',
+    },
+  });
+
+  if (tiers.length === 0) {
+    await interaction.reply({
+      content: 'No contributor tiers are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const tierList = tiers
+    .map((tier) => {
+      const role = interaction.guild?.roles.cache.get(tier.roleId);
+      return `• ${tier.minContributions}+ contributions → ${role ? role.name : 'Unknown Role'} (ID: ${tier.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Contributor Tiers:**\n${tierList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+function formatEarlyStargazerRule(rule: {
+  starredBefore: Date | null;
+  maxRank: number | null;
+}) {
+  const limits: string[] = [];
+  if (rule.maxRank) {
+    limits.push(`first ${rule.maxRank} stars`);
+  }
+  if (rule.starredBefore) {
+    limits.push(
+      `starred before ${rule.starredBefore.toISOString().slice(0, 10)}`,
+    );
+  }
+  return limits.join(' and ');
+}
+
+async function addEarlyStargazerRole(interaction: ChatInputCommandInteraction) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+  const role = interaction.options.getRole('role', true);
+  const starredBeforeInput = interaction.options.getString('starred-before');
+  const maxRank = interaction.options.getInteger('first-stars');
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!starredBeforeInput && !maxRank) {
+    await interaction.reply({
+      content:
+        'Please provide a starred-before date, a first-stars count, or both.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  let starredBefore: Date | null = null;
+  if (starredBeforeInput) {
+    starredBefore = new Date(`${starredBeforeInput}T00:00:00Z`);
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(starredBeforeInput) ||
+      isNaN(starredBefore.getTime())
+    ) {
+      await interaction.reply({
+        content: 'Invalid date format. Please use YYYY-MM-DD.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+  }
+
+  const guildConfig = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild.id },
+  });
+
+  const repository = guildConfig
+    ? await prisma.followedRepository.findUnique({
+        where: {
+          guildConfigId_owner_name: {
+            guildConfigId: guildConfig.id,
+            owner: owner.toLowerCase(),
+            name: name.toLowerCase(),
+          },
+        },
+      })
+    : null;
+
+  if (!guildConfig || !repository) {
+    await interaction.reply({
+      content: `Repository ${owner}/${name} is not being followed. Use /follow-repository to follow it first.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const rule = { starredBefore, maxRank };
+
+  const existingRule = await prisma.earlyStargazerRule.findFirst({
+    where: {
+      repositoryId: repository.id,
+      roleId: role.id,
+      ...rule,
+    },
+  });
+
+  if (existingRule) {
+    await interaction.reply({
+      content: `${role.name} is already assigned to stargazers of ${repository.owner}/${repository.name} (${formatEarlyStargazerRule(rule)}).`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.earlyStargazerRule.create({
+    data: {
+      ...rule,
+      roleId: role.id,
+      guildConfigId: guildConfig.id,
+      repositoryId: repository.id,
+    },
+  });
+
+  log.info(
+    {
+      guildId: interaction.guild.id,
+      repository: `${repository.owner}/${repository.name}`,
+      starredBefore,
+      maxRank,
+      roleId: role.id,
+    },
+    'Early stargazer rule added',
+  );
+
+  await interaction.reply({
+    content: `Successfully set ${role.name} as the role for stargazers of ${repository.owner}/${repository.name} (${formatEarlyStargazerRule(rule)}).`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeEarlyStargazerRole(
+  interaction: ChatInputCommandInteraction,
+) {
+  const owner = interaction.options.getString('owner', true);
+  const name = interaction.options.getString('name', true);
+  const role = interaction.options.getRole('role', true);
+
+  const deletedRules = await prisma.earlyStargazerRule.deleteMany({
+    where: {
+      roleId: role.id,
+      guildConfig: { guildId: interaction.guild?.id },
+      repository: {
+        owner: owner.toLowerCase(),
+        name: name.toLowerCase(),
+      },
+    },
+  });
+
+  if (deletedRules.count > 0) {
+    await interaction.reply({
+      content: `${role.name} is no longer assigned to early stargazers of ${owner}/${name}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `No early stargazer rule found for ${role.name} on ${owner}/${name}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listEarlyStargazerRoles(
+  interaction: ChatInputCommandInteraction,
+) {
+  const rules = await prisma.earlyStargazerRule.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    include: {
+      repository: true,
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  if (rules.length === 0) {
+    await interaction.reply({
+      content: 'No early stargazer rules are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const ruleList = rules
+    .map((rule, index) => {
+      const role = interaction.guild?.roles.cache.get(rule.roleId);
+      return `${index + 1}. ${rule.repository.owner}/${rule.repository.name} (${formatEarlyStargazerRule(rule)}) → ${role ? role.name : 'Unknown Role'} (ID: ${rule.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Early Stargazer Rules:**\n${ruleList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function followOrganization(interaction: ChatInputCommandInteraction) {
+  const name = interaction.options.getString('name', true);
+  const role = interaction.options.getRole('role', true);
+  const guildId = interaction.guild?.id;
+
+  const orgLog = log.child({
+    command: 'follow-organization',
+    org: name,
+    guildId,
+    userId: interaction.user.id,
+  });
+
+  if (!guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  // Validate organization login format (simple check)
+  if (!/^[a-zA-Z0-9-]+$/.test(name)) {
+    await interaction.reply({
+      content: 'Invalid organization name format.',
+      flags: MessageFlags.Ephemeral,
+    });
+    orgLog.warn('Invalid organization format');
+    return;
+  }
+
+  try {
+    // Show a "thinking" state while processing
+    await interaction.deferReply({
+      flags: MessageFlags.Ephemeral,
+    });
+
+    const organization = await githubClient.getOrganization(name);
+    if (!organization) {
+      orgLog.warn('GitHub API reported organization does not exist');
+
+      await interaction.editReply({
+        content: `Organization ${name} doesn't seem to exist or is not accessible. Please check the name and try again.`,
+      });
+      return;
+    }
+
+    const guildConfig = await prisma.guildConfig.upsert({
+      where: { guildId },
+      update: {
+        updatedAt: new Date(),
+      },
+      create: {
+        guildId,
+      },
+    });
+
+    // Re-following an organization replaces its role
+    await prisma.followedOrganization.upsert({
+      where: {
+        guildConfigId_login: {
+          guildConfigId: guildConfig.id,
+          login: name.toLowerCase(),
+        },
+      },
+      update: {
+        roleId: role.id,
+      },
+      create: {
+        guildConfigId: guildConfig.id,
+        login: name.toLowerCase(),
+        roleId: role.id,
+      },
+    });
+
+    orgLog.info('Organization followed');
+
+    let responseMessage = `Successfully set ${role.name} as the role for members of the ${name} organization.`;
+    if (!config.github.token) {
+      responseMessage +=
+        '\nNo GitHub token is configured, so only members who made their membership public will receive the role.';
+    }
+
+    await interaction.editReply({
+      content: responseMessage,
+    });
+  } catch (error) {
+    logError(orgLog, 'Error following organization', error);
+
+    const content = `Failed to follow organization ${name}. Please try again later.`;
+    if (interaction.deferred) {
+      await interaction.editReply({ content }).catch(() => undefined);
+    } else {
+      await interaction
+        .reply({ content, flags: MessageFlags.Ephemeral })
+        .catch(() => undefined);
+    }
+  }
+}
+
+async function unfollowOrganization(interaction: ChatInputCommandInteraction) {
+  const name = interaction.options.getString('name', true);
+
+  const deletedOrganizations = await prisma.followedOrganization.deleteMany({
+    where: {
+      login: name.toLowerCase(),
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  if (deletedOrganizations.count > 0) {
+    await interaction.reply({
+      content: `Stopped following GitHub organization: ${name}`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `Organization ${name} was not being followed.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listOrganizations(interaction: ChatInputCommandInteraction) {
+  const organizations = await prisma.followedOrganization.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  if (organizations.length === 0) {
+    await interaction.reply({
+      content: 'No organizations are currently being followed in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const organizationList = organizations
+    .map((organization) => {
+      const role = interaction.guild?.roles.cache.get(organization.roleId);
+      return `• ${organization.login} → ${role ? role.name : 'Unknown Role'} (ID: ${organization.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Followed GitHub Organizations:**\n${organizationList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function addTeamRole(interaction: ChatInputCommandInteraction) {
+  const org = interaction.options.getString('org', true);
+  // Accept "@org/team" style input for the team as well
+  const teamSlug = interaction.options
+    .getString('team', true)
+    .replace(/^@?[^/]+\//, '');
+  const role = interaction.options.getRole('role', true);
+  const guildId = interaction.guild?.id;
+
+  const teamLog = log.child({
+    command: 'add-team-role',
+    org,
+    teamSlug,
+    guildId,
+    userId: interaction.user.id,
+  });
+
+  if (!guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  // Validate organization and team format (simple check)
+  if (!/^[a-zA-Z0-9-]+$/.test(org) || !/^[a-zA-Z0-9_.-]+$/.test(teamSlug)) {
+    await interaction.reply({
+      content: 'Invalid organization or team name format.',
+      flags: MessageFlags.Ephemeral,
+    });
+    teamLog.warn('Invalid team format');
+    return;
+  }
+
+  // Team membership is never public, so it can only be read with a token
+  if (!config.github.token) {
+    await interaction.reply({
+      content:
+        'Team roles require a GitHub token. Set GITHUB_TOKEN to a token of an organization member and restart the bot.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  try {
+    // Show a "thinking" state while processing
+    await interaction.deferReply({
+      flags: MessageFlags.Ephemeral,
+    });
+
+    const team = await githubClient.getTeam(org, teamSlug);
+    if (!team) {
+      await interaction.editReply({
+        content: `Team @${org}/${teamSlug} doesn't seem to exist or is not visible to the configured GitHub token. Please check the name and try again.`,
+      });
+      return;
+    }
+
+    const guildConfig = await prisma.guildConfig.upsert({
+      where: { guildId },
+      update: {
+        updatedAt: new Date(),
+      },
+      create: {
+        guildId,
+      },
+    });
+
+    const existingMapping = await prisma.teamRoleMapping.findUnique({
+      where: {
+        guildConfigId_org_teamSlug_roleId: {
+          guildConfigId: guildConfig.id,
+          org: org.toLowerCase(),
+          teamSlug: team.slug,
+          roleId: role.id,
+        },
+      },
+    });
+
+    if (existingMapping) {
+      await interaction.editReply({
+        content: `${role.name} is already mapped to team @${org}/${team.slug}.`,
+      });
+      return;
+    }
+
+    await prisma.teamRoleMapping.create({
+      data: {
+        guildConfigId: guildConfig.id,
+        org: org.toLowerCase(),
+        teamSlug: team.slug,
+        roleId: role.id,
+      },
+    });
+
+    teamLog.info('Team role mapping added');
+    await interaction.editReply({
+      content: `Successfully set ${role.name} as the role for members of team @${org}/${team.slug} (${team.name}).`,
+    });
+  } catch (error) {
+    logError(teamLog, 'Error adding team role mapping', error);
+
+    const content = `Failed to add a role for team @${org}/${teamSlug}. Please try again later.`;
+    if (interaction.deferred) {
+      await interaction.editReply({ content }).catch(() => undefined);
+    } else {
+      await interaction
+        .reply({ content, flags: MessageFlags.Ephemeral })
+        .catch(() => undefined);
+    }
+  }
+}
 
-    if (existingRepo) {
+async function removeTeamRole(interaction: ChatInputCommandInteraction) {
+  const org = interaction.options.getString('org', true);
+  const teamSlug = interaction.options
+    .getString('team', true)
+    .replace(/^@?[^/]+\//, '');
+  const role = interaction.options.getRole('role', true);
+
+  const deletedMappings = await prisma.teamRoleMapping.deleteMany({
+    where: {
+      org: org.toLowerCase(),
+      teamSlug: teamSlug.toLowerCase(),
+      roleId: role.id,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  if (deletedMappings.count > 0) {
+    await interaction.reply({
+      content: `${role.name} is no longer mapped to team @${org}/${teamSlug}.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `No mapping of ${role.name} to team @${org}/${teamSlug} was found.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listTeamRoles(interaction: ChatInputCommandInteraction) {
+  const mappings = await prisma.teamRoleMapping.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    orderBy: [{ org: 'asc' }, { teamSlug: 'asc' }],
+  });
+
+  if (mappings.length === 0) {
+    await interaction.reply({
+      content: 'No team role mappings are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const mappingList = mappings
+    .map((mapping) => {
+      const role = interaction.guild?.roles.cache.get(mapping.roleId);
+      return `• @${mapping.org}/${mapping.teamSlug} → ${role ? role.name : 'Unknown Role'} (ID: ${mapping.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Team Role Mappings:**\n${mappingList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function addSponsorRole(interaction: ChatInputCommandInteraction) {
+  const account = interaction.options.getString('account', true);
+  const role = interaction.options.getRole('role', true);
+  const tier = interaction.options.getString('tier')?.trim() || '';
+  const includePrivate =
+    interaction.options.getBoolean('include-private') ?? false;
+  const guildId = interaction.guild?.id;
+
+  const sponsorLog = log.child({
+    command: 'add-sponsor-role',
+    sponsorable: account,
+    tier,
+    guildId,
+    userId: interaction.user.id,
+  });
+
+  if (!guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  // Validate account login format (simple check)
+  if (!/^[a-zA-Z0-9-]+$/.test(account)) {
+    await interaction.reply({
+      content: 'Invalid account name format.',
+      flags: MessageFlags.Ephemeral,
+    });
+    sponsorLog.warn('Invalid sponsorable format');
+    return;
+  }
+
+  // Sponsors can only be read through the GraphQL API with the owner's token
+  if (!config.github.sponsorsToken && !config.github.token) {
+    await interaction.reply({
+      content:
+        'Sponsor roles require a GitHub token of the sponsored account. Set GITHUB_SPONSORS_TOKEN and restart the bot.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  try {
+    // Show a "thinking" state while processing
+    await interaction.deferReply({
+      flags: MessageFlags.Ephemeral,
+    });
+
+    const tiers = await githubClient.getSponsorsTiers(account);
+    if (!tiers) {
       await interaction.editReply({
-        content: `Repository ${owner}/${name} is already being followed.`,
+        content: `${account} doesn't seem to have a GitHub Sponsors profile. Please check the name and try again.`,
       });
       return;
     }
 
-    // Try to validate if repository exists
-    try {
-      const repoCheckResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${name}`,
-        {
-          headers: {
-            Accept: 'application/vnd.github.v3+json',
-            'User-Agent': 'discord-github-roles',
-          },
-        },
+    // Store the tier name as published on GitHub
+    let tierName = '';
+    if (tier) {
+      const matchingTier = tiers.find(
+        (sponsorsTier) =>
+          sponsorsTier.name.toLowerCase() === tier.toLowerCase(),
       );
 
-      if (!repoCheckResponse.ok) {
-        const errorData = await repoCheckResponse.json().catch(() => ({}));
-        log.warn('GitHub API reported repository does not exist', {
-          owner,
-          name,
-          statusCode: repoCheckResponse.status,
-          response: errorData,
-        });
+      if (!matchingTier) {
+        await interaction.editReply({
+          content: `${account} has no sponsorship tier named "${tier}". Available tiers: ${tiers.map((sponsorsTier) => sponsorsTier.name).join(', ') || 'none'}`,
+        });
+        return;
+      }
+
+      tierName = matchingTier.name;
+    }
+
+    const guildConfig = await prisma.guildConfig.upsert({
+      where: { guildId },
+      update: {
+        updatedAt: new Date(),
+      },
+      create: {
+        guildId,
+      },
+    });
+
+    // Re-adding a mapping updates whether private sponsors are included
+    await prisma.sponsorRoleMapping.upsert({
+      where: {
+        guildConfigId_sponsorable_tierName_roleId: {
+          guildConfigId: guildConfig.id,
+          sponsorable: account.toLowerCase(),
+          tierName,
+          roleId: role.id,
+        },
+      },
+      update: {
+        includePrivate,
+      },
+      create: {
+        guildConfigId: guildConfig.id,
+        sponsorable: account.toLowerCase(),
+        tierName,
+        includePrivate,
+        roleId: role.id,
+      },
+    });
+
+    sponsorLog.info('Sponsor role mapping added');
+    await interaction.editReply({
+      content: `Successfully set ${role.name} as the role for ${tierName ? `${tierName} tier sponsors` : 'sponsors'} of ${account}${includePrivate ? ', including private sponsors' : ''}.`,
+    });
+  } catch (error) {
+    logError(sponsorLog, 'Error adding sponsor role mapping', error);
+
+    const content = `Failed to add a sponsor role for ${account}. Make sure the configured token belongs to the sponsored account and try again later.`;
+    if (interaction.deferred) {
+      await interaction.editReply({ content }).catch(() => undefined);
+    } else {
+      await interaction
+        .reply({ content, flags: MessageFlags.Ephemeral })
+        .catch(() => undefined);
+    }
+  }
+}
+
+async function removeSponsorRole(interaction: ChatInputCommandInteraction) {
+  const account = interaction.options.getString('account', true);
+  const role = interaction.options.getRole('role', true);
+  const tier = interaction.options.getString('tier')?.trim() || '';
+
+  const mappings = await prisma.sponsorRoleMapping.findMany({
+    where: {
+      sponsorable: account.toLowerCase(),
+      roleId: role.id,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  // Tier names are matched case-insensitively like on creation
+  const mapping = mappings.find(
+    (candidate) => candidate.tierName.toLowerCase() === tier.toLowerCase(),
+  );
+
+  if (!mapping) {
+    await interaction.reply({
+      content: `No sponsor role mapping of ${role.name} for ${tier ? `${tier} tier sponsors` : 'sponsors'} of ${account} was found.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await prisma.sponsorRoleMapping.delete({
+    where: { id: mapping.id },
+  });
+
+  await interaction.reply({
+    content: `${role.name} is no longer assigned to ${mapping.tierName ? `${mapping.tierName} tier sponsors` : 'sponsors'} of ${account}.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function listSponsorRoles(interaction: ChatInputCommandInteraction) {
+  const mappings = await prisma.sponsorRoleMapping.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    orderBy: [{ sponsorable: 'asc' }, { tierName: 'asc' }],
+  });
+
+  if (mappings.length === 0) {
+    await interaction.reply({
+      content: 'No sponsor role mappings are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const mappingList = mappings
+    .map((mapping) => {
+      const role = interaction.guild?.roles.cache.get(mapping.roleId);
+      const tier = mapping.tierName ? `${mapping.tierName} tier` : 'any tier';
+      const privacy = mapping.includePrivate ? ', including private' : '';
+      return `• ${mapping.sponsorable} (${tier}${privacy}) → ${role ? role.name : 'Unknown Role'} (ID: ${mapping.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Sponsor Role Mappings:**\n${mappingList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function handleRuleCommand(interaction: ChatInputCommandInteraction) {
+  switch (interaction.options.getSubcommand()) {
+    case 'add':
+      await addRule(interaction);
+      break;
+    case 'remove':
+      await removeRule(interaction);
+      break;
+    case 'list':
+      await listRules(interaction);
+      break;
+    case 'test':
+      await testRule(interaction);
+      break;
+  }
+}
+
+/**
+ * Parse a rule expression, replying with the problem if it is invalid
+ */
+async function parseRuleOption(
+  interaction: ChatInputCommandInteraction,
+  source: string,
+): Promise<RuleExpression | null> {
+  try {
+    return parseRuleExpression(source);
+  } catch (error) {
+    if (!(error instanceof RuleParseError)) throw error;
+
+    await interaction.reply({
+      content: `Invalid rule expression: ${error.message}`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return null;
+  }
+}
+
+async function addRule(interaction: ChatInputCommandInteraction) {
+  const name = interaction.options.getString('name', true);
+  const role = interaction.options.getRole('role', true);
+  const source = interaction.options.getString('expression', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const expression = await parseRuleOption(interaction, source);
+  if (!expression) return;
+
+  const guildConfig = await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+    },
+    include: {
+      repositories: true,
+    },
+  });
+
+  // Rules can only use data of followed repositories
+  const followed = new Set(
+    guildConfig.repositories.map((repo) => `${repo.owner}/${repo.name}`),
+  );
+  const unfollowed = getRuleRepositories(expression).filter(
+    (repository) => !followed.has(repository),
+  );
+
+  if (unfollowed.length > 0) {
+    await interaction.reply({
+      content: `The rule uses repositories that are not being followed: ${unfollowed.join(', ')}. Use /follow-repository to follow them first.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const existingRule = await prisma.roleRule.findUnique({
+    where: {
+      guildConfigId_name: {
+        guildConfigId: guildConfig.id,
+        name,
+      },
+    },
+  });
+
+  if (existingRule) {
+    await interaction.reply({
+      content: `A rule named "${name}" already exists. Remove it first to replace it.`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const formattedExpression = formatRuleExpression(expression);
+  await prisma.roleRule.create({
+    data: {
+      name,
+      expression: formattedExpression,
+      roleId: role.id,
+      guildConfigId: guildConfig.id,
+    },
+  });
+
+  log.info(
+    {
+      guildId: interaction.guild.id,
+      name,
+      expression: formattedExpression,
+      roleId: role.id,
+    },
+    'Role rule added',
+  );
+
+  await interaction.reply({
+    content: `Successfully added rule "${name}": members matching \`${formattedExpression}\` receive ${role.name}.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function removeRule(interaction: ChatInputCommandInteraction) {
+  const name = interaction.options.getString('name', true);
+
+  const deletedRules = await prisma.roleRule.deleteMany({
+    where: {
+      name,
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+  });
+
+  if (deletedRules.count > 0) {
+    await interaction.reply({
+      content: `The rule "${name}" has been removed from configuration.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  } else {
+    await interaction.reply({
+      content: `No rule named "${name}" is configured.`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
+
+async function listRules(interaction: ChatInputCommandInteraction) {
+  const rules = await prisma.roleRule.findMany({
+    where: {
+      guildConfig: { guildId: interaction.guild?.id },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  if (rules.length === 0) {
+    await interaction.reply({
+      content: 'No rules are configured in this server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const ruleList = rules
+    .map((rule) => {
+      const role = interaction.guild?.roles.cache.get(rule.roleId);
+      return `• ${rule.name}: \`${rule.expression}\` → ${role ? role.name : 'Unknown Role'} (ID: ${rule.roleId})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    content: `**Role Rules:**\n${ruleList}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function testRule(interaction: ChatInputCommandInteraction) {
+  const user = interaction.options.getUser('member', true);
+  const name = interaction.options.getString('name');
+  let source = interaction.options.getString('expression');
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!name === !source) {
+    await interaction.reply({
+      content:
+        'Please provide either the name of a saved rule or an expression.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
 
-        await interaction.editReply({
-          content: `Repository ${owner}/${name} doesn't seem to exist or is not accessible. Please check the name and try again.`,
-        });
-        return;
-      }
-    } catch (fetchError) {
-      log.error('Failed to fetch repository from GitHub API', {
-        owner,
+  if (name) {
+    const rule = await prisma.roleRule.findFirst({
+      where: {
         name,
-        error:
-          fetchError instanceof Error
-            ? { message: fetchError.message, stack: fetchError.stack }
-            : String(fetchError),
-      });
+        guildConfig: { guildId: interaction.guild.id },
+      },
+    });
 
-      await interaction.editReply({
-        content: `Unable to verify repository ${owner}/${name}. GitHub API may be unavailable. Please try again later.`,
+    if (!rule) {
+      await interaction.reply({
+        content: `No rule named "${name}" is configured.`,
+        flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    // Add repository to followed list
-    await performDatabaseOperation(
-      () =>
-        prisma.followedRepository.create({
-          data: {
-            owner: owner.toLowerCase(),
-            name: name.toLowerCase(),
-            guildConfigId: guildConfig.id,
-          },
-        }),
-      'Failed to add repository to database',
-      { owner, name, guildId },
-    );
+    source = rule.expression;
+  }
 
-    repoLog.info('New repository followed');
+  const expression = await parseRuleOption(interaction, source ?? '');
+  if (!expression) return;
+
+  // Fetching GitHub data can take a while for large repositories
+  await interaction.deferReply({
+    flags: MessageFlags.Ephemeral,
+  });
+
+  const result = await roleSyncService.explainRoleRule(
+    interaction.guild.id,
+    expression,
+    user.id,
+  );
+
+  if (!result) {
     await interaction.editReply({
-      content: `Now following GitHub repository: ${owner}/${name}`,
+      content: `${user.tag} has not linked a GitHub account.`,
     });
-  } catch (error) {
-    logError(repoLog, 'Error following repository', error);
-
-    // Make sure we reply to the user
-    if (interaction.deferred) {
-      await interaction
-        .editReply({
-          content: `Failed to follow repository ${owner}/${name}. Please try again later.`,
-        })
-        .catch((e) => {
-          log.error('Failed to edit reply with error message', {
-            originalError:
-              error instanceof Error ? error.message : String(error),
-            replyError: e instanceof Error ? e.message : String(e),
-          });
-        });
-    } else {
-      await interaction
-        .reply({
-          content: `Failed to follow repository ${owner}/${name}. Please try again later.`,
-          flags: MessageFlags.Ephemeral,
-        })
-        .catch((e) => {
-          log.error('Failed to reply with error message', {
-            originalError:
-              error instanceof Error ? error.message : String(error),
-            replyError: e instanceof Error ? e.message : String(e),
-          });
-        });
-    }
+    return;
   }
-}
 
-async function unfollowRepository(interaction: ChatInputCommandInteraction) {
-  const owner = interaction.options.getString('owner', true);
-  const name = interaction.options.getString('name', true);
+  const { githubUsername, evaluation } = result;
+  let responseMessage = `**Rule test for ${user.tag} (${githubUsername})**\n`;
+  responseMessage += `\`${formatRuleExpression(expression)}\`\n`;
+  responseMessage += `Result: ${evaluation.satisfied ? 'matches' : 'does not match'}\n\n`;
+  responseMessage += evaluation.clauses
+    .map(
+      (clause) =>
+        `${clause.satisfied ? '✅' : '❌'} \`${clause.clause}\`: ${clause.detail}`,
+    )
+    .join('\n');
 
-  if (!owner || !name) {
+  await interaction.editReply({
+    content: responseMessage,
+  });
+}
+
+async function previewSync(interaction: ChatInputCommandInteraction) {
+  if (!interaction.guild) {
     await interaction.reply({
-      content: 'Please provide both repository owner and name.',
+      content: 'This command can only be used in a server.',
       flags: MessageFlags.Ephemeral,
     });
     return;
   }
 
-  try {
-    // Find the guild config
-    const guildConfig = await prisma.guildConfig.findUnique({
-      where: { guildId: interaction.guild?.id },
+  const guildConfig = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild.id },
+  });
+
+  if (!guildConfig) {
+    await interaction.reply({
+      content: 'No configuration found for this server.',
+      flags: MessageFlags.Ephemeral,
     });
+    return;
+  }
 
-    if (!guildConfig) {
-      await interaction.reply({
-        content: 'No configuration found for this server.',
-        flags: MessageFlags.Ephemeral,
-      });
-      return;
+  // Fetching GitHub data can take a while for large repositories
+  await interaction.deferReply({
+    flags: MessageFlags.Ephemeral,
+  });
+
+  const entries = await roleSyncService.previewGuild(interaction.guild.id);
+  const changes = entries.flatMap((entry) =>
+    entry.changes.map((change) => ({ entry, change })),
+  );
+  const additions = changes.filter(({ change }) => change.action === 'add');
+  const removals = changes.filter(({ change }) => change.action === 'remove');
+
+  let responseMessage = '**Role sync preview** (no roles were changed)\n';
+  responseMessage += `• Linked members evaluated: ${entries.length}\n`;
+  responseMessage += `• Roles to add: ${additions.length}\n`;
+  responseMessage += `• Roles to remove: ${removals.length}\n`;
+
+  const deferredRemovals = entries.reduce(
+    (count, entry) => count + entry.deferredRemovals.length,
+    0,
+  );
+  if (deferredRemovals > 0) {
+    responseMessage += `• Removals held back by the grace period: ${deferredRemovals}\n`;
+  }
+
+  const skippedRemovals = entries.reduce(
+    (count, entry) => count + entry.skippedRemovals.length,
+    0,
+  );
+  if (skippedRemovals > 0) {
+    responseMessage += `• Removals skipped because GitHub data could not be fetched: ${skippedRemovals}\n`;
+  }
+
+  if (changes.length > 0) {
+    responseMessage += '\n';
+    responseMessage += changes
+      .slice(0, PREVIEW_MESSAGE_CHANGE_LIMIT)
+      .map(
+        ({ entry, change }) =>
+          `${change.action === 'add' ? '+' : '-'} ${change.roleName} → ${entry.discordTag} (${entry.githubUsername}): ${change.reason}`,
+      )
+      .join('\n');
+
+    if (changes.length > PREVIEW_MESSAGE_CHANGE_LIMIT) {
+      responseMessage += `\n…and ${changes.length - PREVIEW_MESSAGE_CHANGE_LIMIT} more, see the attached CSV.`;
     }
+  }
 
-    // Find and delete the repository
-    const deletedRepo = await prisma.followedRepository.deleteMany({
-      where: {
-        guildConfigId: guildConfig.id,
-        owner: {
-          equals: owner.toLowerCase(),
-        },
-        name: {
-          equals: name.toLowerCase(),
-        },
-      },
+  const attachment = new AttachmentBuilder(
+    Buffer.from(buildPreviewCsv(entries), 'utf8'),
+    { name: 'role-sync-preview.csv' },
+  );
+
+  await interaction.editReply({
+    // Long reasons could push the summary past Discord's message length limit
+    content: responseMessage.slice(0, 2000),
+    files: [attachment],
+  });
+}
+
+async function setRemovalMode(interaction: ChatInputCommandInteraction) {
+  const mode = interaction.options.getString('mode', true);
+
+  if (!interaction.guild) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
     });
+    return;
+  }
 
-    if (deletedRepo.count > 0) {
-      await interaction.reply({
-        content: `Stopped following GitHub repository: ${owner}/${name}`,
-        flags: MessageFlags.Ephemeral,
-      });
-    } else {
-      await interaction.reply({
-        content: `Repository ${owner}/${name} was not being followed.`,
-        flags: MessageFlags.Ephemeral,
-      });
-    }
-  } catch (error) {
-    console.error('Error unfollowing repository:', error);
+  const removeOnlyGrantedRoles = mode === 'granted';
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      removeOnlyGrantedRoles,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      removeOnlyGrantedRoles,
+    },
+  });
+
+  await interaction.reply({
+    content: removeOnlyGrantedRoles
+      ? 'The sync will now only remove roles that were granted by the bot. Use /adopt-existing-roles to record roles handed out before this mode was enabled.'
+      : 'The sync will now remove any managed role from members who no longer qualify.',
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+async function setGracePeriod(interaction: ChatInputCommandInteraction) {
+  const hours = interaction.options.getInteger('hours', true);
+
+  if (!interaction.guild) {
     await interaction.reply({
-      content: `Failed to unfollow repository ${owner}/${name}. Please try again later.`,
+      content: 'This command can only be used in a server.',
       flags: MessageFlags.Ephemeral,
     });
+    return;
   }
+
+  await prisma.guildConfig.upsert({
+    where: { guildId: interaction.guild.id },
+    update: {
+      removalGracePeriodHours: hours,
+      updatedAt: new Date(),
+    },
+    create: {
+      guildId: interaction.guild.id,
+      removalGracePeriodHours: hours,
+    },
+  });
+
+  await interaction.reply({
+    content:
+      hours > 0
+        ? `Roles will now only be removed after a member has been ineligible for ${hours} hour(s).`
+        : 'Roles will now be removed as soon as a member no longer qualifies.',
+    flags: MessageFlags.Ephemeral,
+  });
 }
 
-async function listRepositories(interaction: ChatInputCommandInteraction) {
-  try {
-    // Find the guild config with repositories
-    const guildConfig = await prisma.guildConfig.findUnique({
-      where: { guildId: interaction.guild?.id },
-      include: {
-        repositories: {
-          orderBy: {
-            createdAt: 'asc',
-          },
+async function listPendingRemovals(interaction: ChatInputCommandInteraction) {
+  const guildConfig = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild?.id },
+    include: {
+      pendingRemovals: {
+        orderBy: {
+          ineligibleSince: 'asc',
         },
       },
+    },
+  });
+
+  if (!guildConfig || guildConfig.pendingRemovals.length === 0) {
+    await interaction.reply({
+      content: 'No role removals are pending in this server.',
+      flags: MessageFlags.Ephemeral,
     });
+    return;
+  }
 
-    if (!guildConfig || guildConfig.repositories.length === 0) {
-      await interaction.reply({
-        content: 'No repositories are currently being followed in this server.',
-        flags: MessageFlags.Ephemeral,
-      });
-      return;
-    }
+  const gracePeriodMs = guildConfig.removalGracePeriodHours * 60 * 60 * 1000;
 
-    const repoList = guildConfig.repositories
-      .map((repo, index) => `${index + 1}. ${repo.owner}/${repo.name}`)
-      .join('\n');
+  const pendingList = guildConfig.pendingRemovals
+    .map((pending) => {
+      const role = interaction.guild?.roles.cache.get(pending.roleId);
+      const removeAt = Math.floor(
+        (pending.ineligibleSince.getTime() + gracePeriodMs) / 1000,
+      );
+      return `• <@${pending.discordId}> → ${role ? role.name : 'Unknown Role'}, removed <t:${removeAt}:R> (${pending.reason})`;
+    })
+    .join('\n');
+
+  await interaction.reply({
+    // Long lists could exceed Discord's message length limit
+    content: `**Pending Role Removals:**\n${pendingList}`.slice(0, 2000),
+    flags: MessageFlags.Ephemeral,
+    allowedMentions: { parse: [] },
+  });
+}
 
+async function adoptExistingRoles(interaction: ChatInputCommandInteraction) {
+  if (!interaction.guild) {
     await interaction.reply({
-      content: `**Followed GitHub Repositories:**\n${repoList}`,
+      content: 'This command can only be used in a server.',
       flags: MessageFlags.Ephemeral,
     });
-  } catch (error) {
-    console.error('Error listing repositories:', error);
+    return;
+  }
+
+  const guildConfig = await prisma.guildConfig.findUnique({
+    where: { guildId: interaction.guild.id },
+  });
+
+  if (!guildConfig) {
     await interaction.reply({
-      content: 'Failed to list repositories. Please try again later.',
+      content: 'No configuration found for this server.',
       flags: MessageFlags.Ephemeral,
     });
+    return;
+  }
+
+  // Fetching members can take a while for large servers
+  await interaction.deferReply({
+    flags: MessageFlags.Ephemeral,
+  });
+
+  const adopted = await roleSyncService.adoptExistingRoles(
+    interaction.guild.id,
+  );
+
+  await interaction.editReply({
+    content: `Recorded ${adopted} existing role assignment(s) of linked members as granted by the bot.`,
+  });
+}
+
+function buildPreviewCsv(entries: SyncPreviewEntry[]) {
+  const escapeCsvValue = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const rows = [
+    [
+      'discord_id',
+      'discord_user',
+      'github_login',
+      'action',
+      'role_id',
+      'role_name',
+      'reason',
+    ],
+  ];
+
+  for (const entry of entries) {
+    // Members without planned changes are listed too so the preview is complete
+    if (
+      entry.changes.length === 0 &&
+      entry.deferredRemovals.length === 0 &&
+      entry.skippedRemovals.length === 0
+    ) {
+      rows.push([
+        entry.discordId,
+        entry.discordTag,
+        entry.githubUsername,
+        'none',
+        '',
+        '',
+        '',
+      ]);
+    }
+
+    for (const change of entry.changes) {
+      rows.push([
+        entry.discordId,
+        entry.discordTag,
+        entry.githubUsername,
+        change.action,
+        change.roleId,
+        change.roleName,
+        change.reason,
+      ]);
+    }
+
+    for (const removal of entry.deferredRemovals) {
+      rows.push([
+        entry.discordId,
+        entry.discordTag,
+        entry.githubUsername,
+        'pending-remove',
+        removal.roleId,
+        removal.roleName,
+        removal.reason,
+      ]);
+    }
+
+    for (const removal of entry.skippedRemovals) {
+      rows.push([
+        entry.discordId,
+        entry.discordTag,
+        entry.githubUsername,
+        'skipped-remove',
+        removal.roleId,
+        removal.roleName,
+        removal.reason,
+      ]);
+    }
   }
+
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\n');
 }
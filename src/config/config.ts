@@ -8,10 +8,22 @@ export const config = {
       text: process.env.BOT_STATUS_TEXT || '',
       url: process.env.BOT_STATUS_URL || '', // Only used for STREAMING status
     },
+    // Requires the privileged Server Members Intent in the Discord developer portal
+    syncOnMemberJoin: process.env.SYNC_ON_MEMBER_JOIN === 'true',
   },
   github: {
     clientId: process.env.GITHUB_CLIENT_ID || '',
     clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    // Optional token for higher rate limits and private organization members
+    token: process.env.GITHUB_TOKEN || '',
+    // Token of the sponsored account, falls back to GITHUB_TOKEN
+    sponsorsToken: process.env.GITHUB_SPONSORS_TOKEN || '',
+    // Overridable to point the bot at a fake API, e.g. in local testing
+    apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+    graphqlUrl:
+      process.env.GITHUB_GRAPHQL_URL || 'https://api.github.com/graphql',
+    // Secret used to verify webhook deliveries, see /webhooks/github
+    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
   },
   baseUrl: process.env.BASE_URL || 'http://localhost:3000',
   scheduler: {
@@ -2,7 +2,8 @@ import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
 import 'dotenv/config';
 import { createBot } from './bot/bot';
-import { authRoutes } from './routes/auth';
+import { authRoutes, consumeSyncOutcome } from './routes/auth';
+import { webhookRoutes } from './routes/webhooks';
 import { PrismaClient } from '@prisma/client';
 import { jsxRenderer } from 'hono/jsx-renderer';
 import { IndexPage } from './pages/IndexPage';
@@ -12,12 +13,25 @@ import { createChildLogger, logError } from './utils/logger';
 import { config } from './config/config';
 import { Scheduler } from './scheduler/scheduler';
 import { verifyToken } from './utils/jwt';
+import { RoleSyncService } from './services/role-sync';
+import { GitHubApiClient } from './services/github-api';
+import { Client } from 'discord.js';
 
 const log = createChildLogger('app');
 
 // Initialize Prisma client
 export const prisma = new PrismaClient();
 
+// GitHub API client shared by the role sync and bot commands
+export const githubClient = new GitHubApiClient(
+  config.github.token || undefined,
+  {
+    sponsorsToken: config.github.sponsorsToken || undefined,
+    baseUrl: config.github.apiUrl,
+    graphqlUrl: config.github.graphqlUrl,
+  },
+);
+
 export const app = new Hono();
 
 // Serve static files from the public directory
@@ -46,6 +60,9 @@ app.use(
 // Register auth routes
 app.route('', authRoutes);
 
+// Register GitHub webhook routes
+app.route('', webhookRoutes);
+
 // Health check endpoint
 app.get('/api/health', (c) => {
   log.info('Health check endpoint accessed');
@@ -58,7 +75,9 @@ app.get('/', async (c) => {
 
   if (!authToken) {
     log.debug('Home page accessed by unauthenticated user');
-    return c.render(<IndexPage user={null} />);
+    return c.render(
+      <IndexPage user={null} syncOutcome={consumeSyncOutcome(c)} />,
+    );
   }
 
   const payload = verifyToken(authToken);
@@ -104,7 +123,9 @@ app.get('/', async (c) => {
       );
     }
 
-    return c.render(<IndexPage user={user} />);
+    return c.render(
+      <IndexPage user={user} syncOutcome={consumeSyncOutcome(c)} />,
+    );
   } catch (error) {
     log.error(
       {
@@ -126,29 +147,9 @@ app.get('/', async (c) => {
 });
 
 // Create and initialize the Discord bot
+let client: Client;
 try {
-  const client = createBot(config.discord.token);
-
-  // Initialize scheduler when the client is ready
-  client.once('ready', () => {
-    try {
-      // Create the scheduler with configured interval
-      const scheduler = new Scheduler(
-        client,
-        config.scheduler.syncIntervalHours,
-      );
-
-      // Start the scheduler
-      scheduler.start();
-
-      log.info(
-        { syncIntervalHours: config.scheduler.syncIntervalHours },
-        'Role sync scheduler started',
-      );
-    } catch (error) {
-      logError(log, 'Failed to initialize scheduler', error);
-    }
-  });
+  client = createBot(config.discord.token);
 } catch (error) {
   log.fatal(
     {
@@ -162,6 +163,32 @@ try {
   process.exit(1);
 }
 
+// Role sync service shared by the scheduler and bot commands
+export const roleSyncService = new RoleSyncService(client, githubClient);
+
+// Initialize scheduler when the client is ready
+client.once('ready', () => {
+  try {
+    // Create the scheduler with configured interval
+    const scheduler = new Scheduler(
+      client,
+      roleSyncService,
+      githubClient,
+      config.scheduler.syncIntervalHours,
+    );
+
+    // Start the scheduler
+    scheduler.start();
+
+    log.info(
+      { syncIntervalHours: config.scheduler.syncIntervalHours },
+      'Role sync scheduler started',
+    );
+  } catch (error) {
+    logError(log, 'Failed to initialize scheduler', error);
+  }
+});
+
 serve(
   {
     fetch: app.fetch,
@@ -12,12 +12,22 @@ type User = {
   } | null;
 };
 
+type SyncOutcome = {
+  action: 'sync' | 'revoke';
+  success: boolean;
+  pending: boolean;
+  guildCount: number;
+  rolesAdded: number;
+  rolesRemoved: number;
+};
+
 type IndexPageProps = {
   user: User | null;
   error?: string;
+  syncOutcome?: SyncOutcome | null;
 };
 
-export const IndexPage: FC<IndexPageProps> = ({ user, error }) => {
+export const IndexPage: FC<IndexPageProps> = ({ user, error, syncOutcome }) => {
   const isFullyLinked = user?.discordAccount && user?.gitHubAccount;
   
   return (
@@ -38,6 +48,19 @@ export const IndexPage: FC<IndexPageProps> = ({ user, error }) => {
           </div>
         )}
 
+        {!user && syncOutcome && syncOutcome.action === 'revoke' && (
+          <div class="card sync-result">
+            <h3>Your account has been deleted</h3>
+            {!syncOutcome.success ? (
+              <p>We couldn't remove the roles you received from this bot. A server administrator can remove them manually.</p>
+            ) : syncOutcome.rolesRemoved > 0 ? (
+              <p>Removed {syncOutcome.rolesRemoved} role(s) you received from this bot.</p>
+            ) : (
+              <p>You didn't have any roles from this bot, so no roles were removed.</p>
+            )}
+          </div>
+        )}
+
         {!user ? (
           <div class="card intro-card">
             <h2>Get Started</h2>
@@ -68,6 +91,33 @@ export const IndexPage: FC<IndexPageProps> = ({ user, error }) => {
                 <span>Your accounts are fully linked! You now have access to all features.</span>
               </div>
             )}
+
+            {syncOutcome && syncOutcome.action === 'sync' && !syncOutcome.success && (
+              <div class="error-banner">
+                <span>We couldn't assign your roles right away. They will be assigned during the next scheduled sync.</span>
+              </div>
+            )}
+
+            {syncOutcome && syncOutcome.action === 'sync' && syncOutcome.success && (
+              <div class="sync-result">
+                <h3>Role Sync Result</h3>
+                {syncOutcome.pending ? (
+                  <p>Your roles are being assigned in the background. This can take a few minutes, check Discord shortly.</p>
+                ) : syncOutcome.guildCount === 0 ? (
+                  <p>We couldn't find you in any server that uses this bot yet. Roles will be assigned once you join one.</p>
+                ) : syncOutcome.rolesAdded === 0 && syncOutcome.rolesRemoved === 0 ? (
+                  <p>No role changes in {syncOutcome.guildCount} server(s), your roles are up to date.</p>
+                ) : (
+                  <p>
+                    {[
+                      syncOutcome.rolesAdded > 0 ? `Received ${syncOutcome.rolesAdded} role(s)` : '',
+                      syncOutcome.rolesRemoved > 0 ? `Removed ${syncOutcome.rolesRemoved} role(s)` : '',
+                    ].filter(Boolean).join(' and ')}{' '}
+                    across {syncOutcome.guildCount} server(s).
+                  </p>
+                )}
+              </div>
+            )}
             
             <h2>Your Linked Accounts</h2>
             
@@ -124,7 +174,7 @@ export const IndexPage: FC<IndexPageProps> = ({ user, error }) => {
             <div class="info-banner">
               <h3>What Happens Next?</h3>
               <p>
-              Once you have connected both accounts, you will automatically receive the appropriate roles in the Discord server based on your Stargazer and Contributor status for the specific GitHub repository. <strong>Role syncing may take up to 15 minutes.</strong>
+              Once you have connected both accounts, you will automatically receive the appropriate roles in the Discord server based on your Stargazer and Contributor status for the specific GitHub repository. <strong>Roles are assigned as soon as both accounts are linked, and later changes may take up to 15 minutes to sync.</strong>
               </p>
               
               <button 
@@ -169,12 +219,90 @@ export const IndexPage: FC<IndexPageProps> = ({ user, error }) => {
                     <li><code>/remove-contributor-role</code> - Remove the contributor role setting</li>
                     <li><code>/setup-stargazer-role</code> - Set a role for GitHub repository stargazers</li>
                     <li><code>/remove-stargazer-role</code> - Remove the stargazer role setting</li>
+                    <li><code>/setup-forker-role</code> - Set a role for users who forked a followed repository</li>
+                    <li><code>/remove-forker-role</code> - Remove the forker role setting</li>
+                    <li><code>/setup-watcher-role</code> - Set a role for users watching a followed repository</li>
+                    <li><code>/remove-watcher-role</code> - Remove the watcher role setting</li>
+                    <li><code>/setup-pr-author-role</code> - Set a role for users who opened a pull request</li>
+                    <li><code>/remove-pr-author-role</code> - Remove the pull request author role setting</li>
+                    <li><code>/setup-merged-pr-role</code> - Set a role for users with a merged pull request</li>
+                    <li><code>/remove-merged-pr-role</code> - Remove the merged pull request role setting</li>
+                    <li><code>/setup-issue-author-role</code> - Set a role for users who opened an issue, optionally with a given label</li>
+                    <li><code>/remove-issue-author-role</code> - Remove the issue author role setting</li>
+                    <li><code>/setup-reviewer-role</code> - Set a role for users who reviewed a pull request</li>
+                    <li><code>/remove-reviewer-role</code> - Remove the reviewer role setting</li>
+                    <li><code>/setup-maintainer-role</code> - Set a role for collaborators with at least a given repository permission</li>
+                    <li><code>/remove-maintainer-role</code> - Remove the maintainer role setting</li>
+                    <li><code>/setup-active-contributor-role</code> - Set a role for users who committed in the last N days</li>
+                    <li><code>/remove-active-contributor-role</code> - Remove the active contributor role setting</li>
+                  </ul>
+
+                  <h4>Repository Specific Roles</h4>
+                  <ul class="command-list">
+                    <li><code>/add-repository-role</code> - Assign a role to contributors or stargazers of a single repository</li>
+                    <li><code>/remove-repository-role</code> - Remove a repository specific role mapping</li>
+                    <li><code>/list-repository-roles</code> - List all repository specific role mappings</li>
+                  </ul>
+
+                  <h4>Contributor Tiers</h4>
+                  <ul class="command-list">
+                    <li><code>/add-contributor-tier</code> - Assign a role to contributors with at least a given number of contributions</li>
+                    <li><code>/remove-contributor-tier</code> - Remove a contributor tier</li>
+                    <li><code>/list-contributor-tiers</code> - List all contributor tiers</li>
+                  </ul>
+
+                  <h4>Early Stargazer Roles</h4>
+                  <ul class="command-list">
+                    <li><code>/add-early-stargazer-role</code> - Assign a role to users who starred a repository early</li>
+                    <li><code>/remove-early-stargazer-role</code> - Remove the early stargazer rules of a role on a repository</li>
+                    <li><code>/list-early-stargazer-roles</code> - List all early stargazer rules</li>
+                  </ul>
+
+                  <h4>Organization Roles</h4>
+                  <ul class="command-list">
+                    <li><code>/follow-organization</code> - Assign a role to members of a GitHub organization</li>
+                    <li><code>/unfollow-organization</code> - Stop assigning a role to members of a GitHub organization</li>
+                    <li><code>/list-organizations</code> - List all followed GitHub organizations</li>
+                  </ul>
+
+                  <h4>Team Roles</h4>
+                  <ul class="command-list">
+                    <li><code>/add-team-role</code> - Assign a role to members of a GitHub team</li>
+                    <li><code>/remove-team-role</code> - Remove a team to role mapping</li>
+                    <li><code>/list-team-roles</code> - List all team to role mappings</li>
+                  </ul>
+
+                  <h4>Sponsor Roles</h4>
+                  <ul class="command-list">
+                    <li><code>/add-sponsor-role</code> - Assign a role to GitHub Sponsors of an account, optionally only for one tier</li>
+                    <li><code>/remove-sponsor-role</code> - Remove a sponsor role mapping</li>
+                    <li><code>/list-sponsor-roles</code> - List all sponsor role mappings</li>
+                  </ul>
+
+                  <h4>Role Rules</h4>
+                  <ul class="command-list">
+                    <li><code>/rule add</code> - Assign a role to members matching a rule such as <code>stargazer(owner/repo) AND count(contributor) &gt;= 2</code></li>
+                    <li><code>/rule remove</code> - Remove a rule</li>
+                    <li><code>/rule list</code> - List all rules</li>
+                    <li><code>/rule test</code> - Explain which clauses of a rule a member satisfies</li>
+                  </ul>
+
+                  <h4>Sync Tools</h4>
+                  <ul class="command-list">
+                    <li><code>/preview-sync</code> - Preview which roles the next sync would add or remove</li>
+                    <li><code>/set-removal-mode</code> - Choose whether the sync may remove any managed role or only roles granted by the bot</li>
+                    <li><code>/adopt-existing-roles</code> - Record managed roles already held by linked members as granted by the bot</li>
+                    <li><code>/set-grace-period</code> - Only remove a role after the member has been ineligible for the given number of hours</li>
+                    <li><code>/list-pending-removals</code> - List roles waiting for the grace period before removal</li>
                   </ul>
                   
                   <h4>Repository Management</h4>
                   <ul class="command-list">
                     <li><code>/follow-repository</code> - Add a GitHub repository to follow for role assignments</li>
                     <li><code>/unfollow-repository</code> - Remove a GitHub repository from being followed</li>
+                    <li><code>/follow-owner</code> - Follow every repository of a GitHub organization or user, with optional filters</li>
+                    <li><code>/unfollow-owner</code> - Stop following the repositories of an organization or user</li>
+                    <li><code>/set-webhook-secret</code> - Set the secret of a GitHub webhook configured on a followed repository</li>
                     <li><code>/list-repositories</code> - List all followed GitHub repositories</li>
                     <li><code>/show-config</code> - Display current role configuration</li>
                   </ul>
@@ -1,9 +1,10 @@
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { getCookie, setCookie } from 'hono/cookie';
-import { prisma } from '../index';
+import { prisma, roleSyncService } from '../index';
 import { config } from '../config/config';
 import { createChildLogger, logError } from '../utils/logger';
 import { generateToken, verifyToken } from '../utils/jwt';
+import { UserSyncResult } from '../services/role-sync';
 
 // Create a logger instance for the auth component
 const log = createChildLogger('auth');
@@ -16,6 +17,12 @@ const GITHUB_API_URL = 'https://github.com';
 const GITHUB_API_VERSION = 'v3';
 const REDIRECT_URI_BASE = config.baseUrl;
 
+// Cookie carrying the outcome of the role sync run after linking accounts
+const SYNC_OUTCOME_COOKIE = 'role_sync_outcome';
+
+// How long an OAuth callback waits for the role sync before redirecting
+const SYNC_WAIT_MS = 3000;
+
 // Set secure cookie options
 const getSecureCookieOptions = (maxAge: number = 60 * 60 * 24 * 7) => ({
   httpOnly: true,
@@ -24,6 +31,102 @@ const getSecureCookieOptions = (maxAge: number = 60 * 60 * 24 * 7) => ({
   maxAge,
 });
 
+// Counts only, so the cookie stays small however many guilds the user is in
+export interface SyncOutcome {
+  // 'sync' after linking accounts, 'revoke' after deleting them
+  action: 'sync' | 'revoke';
+  success: boolean;
+  // The sync was still running when the user was redirected
+  pending: boolean;
+  guildCount: number;
+  rolesAdded: number;
+  rolesRemoved: number;
+}
+
+function createSyncOutcome(
+  action: SyncOutcome['action'],
+  results: UserSyncResult[] = [],
+  { success = true, pending = false } = {},
+): SyncOutcome {
+  return {
+    action,
+    success,
+    pending,
+    guildCount: results.length,
+    rolesAdded: results.reduce((count, guild) => count + guild.added.length, 0),
+    rolesRemoved: results.reduce(
+      (count, guild) => count + guild.removed.length,
+      0,
+    ),
+  };
+}
+
+/**
+ * Assign roles right away once a user has both accounts linked, instead of
+ * waiting for the next scheduled sync. The outcome is handed to the home page
+ * through a short-lived cookie. Syncs that take longer than SYNC_WAIT_MS,
+ * e.g. with a cold cache, keep running in the background.
+ */
+async function syncNewlyLinkedUser(c: Context, userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { discordAccount: true, gitHubAccount: true },
+  });
+
+  if (!user?.discordAccount || !user.gitHubAccount) return;
+
+  const sync = roleSyncService
+    .syncUser(user.discordAccount.discordId)
+    .then((results) => createSyncOutcome('sync', results));
+
+  // Also logs failures of syncs that finish after the redirect
+  sync.catch((error) =>
+    logError(log, 'Failed to sync roles for newly linked user', error, {
+      userId,
+    }),
+  );
+
+  let outcome: SyncOutcome;
+  try {
+    outcome =
+      (await Promise.race([
+        sync,
+        new Promise<null>((resolve) =>
+          setTimeout(() => resolve(null), SYNC_WAIT_MS),
+        ),
+      ])) ?? createSyncOutcome('sync', [], { pending: true });
+  } catch {
+    outcome = createSyncOutcome('sync', [], { success: false });
+  }
+
+  setSyncOutcome(c, outcome);
+}
+
+function setSyncOutcome(c: Context, outcome: SyncOutcome) {
+  setCookie(
+    c,
+    SYNC_OUTCOME_COOKIE,
+    JSON.stringify(outcome),
+    getSecureCookieOptions(60 * 5), // 5 minutes
+  );
+}
+
+/**
+ * Read and clear the role sync outcome left by an OAuth callback
+ */
+export function consumeSyncOutcome(c: Context): SyncOutcome | null {
+  const value = getCookie(c, SYNC_OUTCOME_COOKIE);
+  if (!value) return null;
+
+  setCookie(c, SYNC_OUTCOME_COOKIE, '', getSecureCookieOptions(0));
+
+  try {
+    return JSON.parse(value) as SyncOutcome;
+  } catch {
+    return null;
+  }
+}
+
 // Discord OAuth endpoints
 authRoutes.get('/auth/discord', async (c) => {
   // Generate and store state for CSRF protection
@@ -184,6 +287,8 @@ authRoutes.get('/auth/discord/callback', async (c) => {
         },
       });
 
+      await syncNewlyLinkedUser(c, userId);
+
       return c.redirect('/');
     }
 
@@ -366,6 +471,8 @@ authRoutes.get('/auth/github/callback', async (c) => {
         },
       });
 
+      await syncNewlyLinkedUser(c, userId);
+
       return c.redirect('/');
     }
 
@@ -407,6 +514,27 @@ authRoutes.post('/auth/unlink', async (c) => {
   const userId = payload.userId;
 
   try {
+    const discordAccount = await prisma.discordAccount.findUnique({
+      where: { userId },
+    });
+
+    // Revoke the roles the bot granted while the Discord ID is still known
+    let results: UserSyncResult[] = [];
+    let outcome = createSyncOutcome('revoke');
+    if (discordAccount) {
+      try {
+        results = await roleSyncService.revokeUserRoles(
+          discordAccount.discordId,
+        );
+        outcome = createSyncOutcome('revoke', results);
+      } catch (error) {
+        logError(log, 'Failed to revoke roles before unlinking', error, {
+          userId,
+        });
+        outcome = createSyncOutcome('revoke', [], { success: false });
+      }
+    }
+
     // Delete the entire user record - cascading delete will remove associated accounts
     await prisma.user.delete({
       where: { id: userId },
@@ -417,6 +545,21 @@ authRoutes.post('/auth/unlink', async (c) => {
       ...getSecureCookieOptions(0),
     });
 
+    const removedRoles = results
+      .filter((guild) => guild.removed.length > 0)
+      .map((guild) => ({
+        guildId: guild.guildId,
+        guildName: guild.guildName,
+        roles: guild.removed,
+      }));
+
+    log.info({ userId, removedRoles }, 'User unlinked accounts');
+
+    if (c.req.header('Accept')?.includes('application/json')) {
+      return c.json({ success: true, removedRoles });
+    }
+
+    setSyncOutcome(c, outcome);
     return c.redirect('/');
   } catch (error) {
     logError(log, 'Error unlinking accounts', error);
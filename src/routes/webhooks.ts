@@ -0,0 +1,262 @@
+import { Hono } from 'hono';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma, roleSyncService } from '../index';
+import { config } from '../config/config';
+import { createChildLogger, logError } from '../utils/logger';
+
+// Create a logger instance for the webhooks component
+const log = createChildLogger('webhooks');
+
+export const webhookRoutes = new Hono();
+
+interface WebhookAccount {
+  login: string;
+}
+
+// The parts of the GitHub webhook payloads we act on
+interface WebhookPayload {
+  action?: string;
+  sender?: WebhookAccount;
+  repository?: {
+    name: string;
+    owner: WebhookAccount;
+    default_branch?: string;
+  };
+  organization?: WebhookAccount;
+  // star
+  starred_at?: string | null;
+  // push
+  ref?: string;
+  commits?: { author?: { username?: string } }[];
+  // pull_request
+  pull_request?: { user: WebhookAccount | null };
+  // member
+  member?: WebhookAccount | null;
+  // organization
+  membership?: { user: WebhookAccount | null };
+}
+
+// Pull request actions that can change who opened or merged a pull request
+const PULL_REQUEST_ACTIONS = ['opened', 'reopened', 'closed'];
+
+// Organization actions that change the members of an organization
+const ORGANIZATION_ACTIONS = ['member_added', 'member_removed'];
+
+/**
+ * Check the X-Hub-Signature-256 header of a delivery against a secret
+ */
+function verifySignature(body: string, signature: string, secret: string) {
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`,
+  );
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// A secret a delivery may be signed with, along with the guild that set it.
+// The guild is null for the global secret.
+interface WebhookSecret {
+  secret: string;
+  guildId: string | null;
+}
+
+/**
+ * Get the secrets a delivery may be signed with: the global secret, plus the
+ * secrets guilds configured for the repository the event belongs to
+ */
+async function getWebhookSecrets(
+  payload: WebhookPayload,
+): Promise<WebhookSecret[]> {
+  const secrets: WebhookSecret[] = config.github.webhookSecret
+    ? [{ secret: config.github.webhookSecret, guildId: null }]
+    : [];
+
+  if (payload.repository) {
+    const repositories = await prisma.followedRepository.findMany({
+      where: {
+        owner: payload.repository.owner.login.toLowerCase(),
+        name: payload.repository.name.toLowerCase(),
+        webhookSecret: { not: null },
+      },
+      select: {
+        webhookSecret: true,
+        guildConfig: { select: { guildId: true } },
+      },
+    });
+
+    for (const repository of repositories) {
+      if (repository.webhookSecret) {
+        secrets.push({
+          secret: repository.webhookSecret,
+          guildId: repository.guildConfig.guildId,
+        });
+      }
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * Return the logins of the GitHub users whose roles an event may have changed.
+ * With `updateCache`, also update the cached GitHub data the event affects.
+ * The cache is shared by every guild, so only deliveries signed with the
+ * global secret may update it.
+ */
+function applyWebhookEvent(
+  event: string,
+  payload: WebhookPayload,
+  updateCache: boolean,
+): string[] {
+  const repoFullName = payload.repository
+    ? `${payload.repository.owner.login}/${payload.repository.name}`.toLowerCase()
+    : null;
+
+  switch (event) {
+    case 'star': {
+      if (!repoFullName || !payload.sender) return [];
+
+      if (updateCache) {
+        roleSyncService.recordStar(
+          repoFullName,
+          payload.sender.login,
+          payload.action === 'created'
+            ? new Date(payload.starred_at ?? Date.now())
+            : null,
+        );
+      }
+      return [payload.sender.login];
+    }
+    case 'push': {
+      // Contributors only count commits on the default branch
+      if (
+        !repoFullName ||
+        payload.ref !== `refs/heads/${payload.repository?.default_branch}`
+      ) {
+        return [];
+      }
+
+      if (updateCache) {
+        roleSyncService.invalidateRepoData(repoFullName, [
+          'contributors',
+          'recentCommitAuthors',
+        ]);
+      }
+      return Array.from(
+        new Set(
+          (payload.commits ?? []).flatMap((commit) =>
+            commit.author?.username ? [commit.author.username] : [],
+          ),
+        ),
+      );
+    }
+    case 'pull_request': {
+      const author = payload.pull_request?.user;
+      if (
+        !repoFullName ||
+        !author ||
+        !PULL_REQUEST_ACTIONS.includes(payload.action ?? '')
+      ) {
+        return [];
+      }
+
+      if (updateCache) {
+        roleSyncService.invalidateRepoData(repoFullName, ['pullRequests']);
+      }
+      return [author.login];
+    }
+    case 'member': {
+      if (!repoFullName || !payload.member) return [];
+
+      if (updateCache) {
+        roleSyncService.invalidateRepoData(repoFullName, ['collaborators']);
+      }
+      return [payload.member.login];
+    }
+    case 'organization': {
+      const member = payload.membership?.user;
+      if (
+        !payload.organization ||
+        !member ||
+        !ORGANIZATION_ACTIONS.includes(payload.action ?? '')
+      ) {
+        return [];
+      }
+
+      if (updateCache) {
+        roleSyncService.invalidateOrganizationData(payload.organization.login);
+      }
+      return [member.login];
+    }
+    default:
+      return [];
+  }
+}
+
+// Receive GitHub webhook deliveries and update the roles of affected users
+// right away. The scheduled sync still runs and catches missed deliveries.
+webhookRoutes.post('/webhooks/github', async (c) => {
+  const event = c.req.header('X-GitHub-Event') ?? '';
+  const deliveryLog = log.child({
+    event,
+    deliveryId: c.req.header('X-GitHub-Delivery'),
+  });
+  const signature = c.req.header('X-Hub-Signature-256');
+  const body = await c.req.text();
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    deliveryLog.warn('Webhook payload is not valid JSON');
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+
+  const secrets = await getWebhookSecrets(payload);
+  const matchingSecrets = signature
+    ? secrets.filter(({ secret }) => verifySignature(body, signature, secret))
+    : [];
+  if (matchingSecrets.length === 0) {
+    deliveryLog.warn(
+      { hasSecret: secrets.length > 0 },
+      'Webhook signature verification failed',
+    );
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  // A delivery signed with a guild's own secret only resyncs that guild. It
+  // can't update the shared cache, so that guild's data is fetched again.
+  const isGlobal = matchingSecrets.some(({ guildId }) => guildId === null);
+  const guildIds = isGlobal
+    ? undefined
+    : matchingSecrets.flatMap(({ guildId }) => (guildId ? [guildId] : []));
+
+  if (event === 'ping') {
+    deliveryLog.info('Webhook ping received');
+    return c.json({ status: 'ok' });
+  }
+
+  const logins = applyWebhookEvent(event, payload, isGlobal);
+  if (logins.length === 0) {
+    deliveryLog.debug({ action: payload.action }, 'Ignoring webhook event');
+    return c.json({ status: 'ignored' }, 202);
+  }
+
+  // GitHub times out deliveries after 10 seconds, so sync in the background
+  for (const login of logins) {
+    roleSyncService
+      .syncGitHubUser(login, { guildIds, preferCache: isGlobal })
+      .then((results) =>
+        deliveryLog.info(
+          { githubUsername: login, guildCount: results.length },
+          'Synced user from webhook',
+        ),
+      )
+      .catch((error) =>
+        logError(deliveryLog, `Failed to sync ${login} from webhook`, error),
+      );
+  }
+
+  return c.json({ status: 'accepted' }, 202);
+});
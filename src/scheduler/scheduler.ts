@@ -1,6 +1,7 @@
 import { Client } from 'discord.js';
 import { createChildLogger, logError } from '../utils/logger';
 import { RoleSyncService } from '../services/role-sync';
+import { GitHubApiClient } from '../services/github-api';
 
 const log = createChildLogger('scheduler');
 
@@ -11,19 +12,25 @@ const INITIAL_DELAY_MS = 5000; // Short delay before first sync to allow app ini
 export class Scheduler {
   private discordClient: Client;
   private roleSyncService: RoleSyncService;
+  private githubClient: GitHubApiClient;
   private syncIntervalMs: number;
   private syncInterval: NodeJS.Timeout | null = null;
+  private deferredSync: NodeJS.Timeout | null = null;
   private isRunning = false;
   private lastSyncTime = 0;
 
-  constructor(discordClient: Client, syncIntervalHours?: number) {
+  constructor(
+    discordClient: Client,
+    roleSyncService: RoleSyncService,
+    githubClient: GitHubApiClient,
+    syncIntervalHours?: number,
+  ) {
     this.discordClient = discordClient;
+    this.roleSyncService = roleSyncService;
+    this.githubClient = githubClient;
     this.syncIntervalMs =
       (syncIntervalHours || DEFAULT_SYNC_INTERVAL_HOURS) * 60 * 60 * 1000;
 
-    // Create role sync service with GitHub token if available
-    this.roleSyncService = new RoleSyncService(discordClient);
-
     log.info(
       { syncIntervalHours: syncIntervalHours || DEFAULT_SYNC_INTERVAL_HOURS },
       'Scheduler initialized',
@@ -65,6 +72,11 @@ export class Scheduler {
    * Stop the scheduler
    */
   stop() {
+    if (this.deferredSync) {
+      clearTimeout(this.deferredSync);
+      this.deferredSync = null;
+    }
+
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
@@ -90,10 +102,23 @@ export class Scheduler {
       return;
     }
 
+    // Syncing with an exhausted rate limit would only produce partial data,
+    // so wait for the budget to reset instead
+    const rateLimit = this.githubClient.getRateLimit();
+    if (
+      rateLimit &&
+      rateLimit.remaining === 0 &&
+      rateLimit.resetAt.getTime() > now
+    ) {
+      this.deferSync(rateLimit.resetAt);
+      return;
+    }
+
     this.lastSyncTime = now;
 
     try {
       log.info(
+        { rateLimit },
         'Starting scheduled sync - will update roles based on current GitHub data',
       );
       const startTime = Date.now();
@@ -103,7 +128,7 @@ export class Scheduler {
 
       const duration = Date.now() - startTime;
       log.info(
-        { durationMs: duration },
+        { durationMs: duration, rateLimit: this.githubClient.getRateLimit() },
         'Scheduled sync completed successfully - all role changes applied',
       );
 
@@ -121,6 +146,25 @@ export class Scheduler {
     }
   }
 
+  /**
+   * Run the sync once the GitHub rate limit has reset, unless a regular sync
+   * runs before that
+   */
+  private deferSync(resetAt: Date) {
+    if (this.deferredSync) return;
+
+    const delayMs = resetAt.getTime() - Date.now();
+    log.warn(
+      { resetAt, delayMs },
+      'GitHub rate limit exhausted, deferring sync until it resets',
+    );
+
+    this.deferredSync = setTimeout(() => {
+      this.deferredSync = null;
+      this.runSync();
+    }, delayMs);
+  }
+
   /**
    * Manually trigger a sync operation
    */
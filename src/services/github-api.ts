@@ -1,23 +1,338 @@
+import { prisma } from '../index';
 import { createChildLogger, logError } from '../utils/logger';
 
 const log = createChildLogger('github-api');
 
+// Failed requests are retried with exponential backoff starting at this delay
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Longest we wait for an exhausted rate limit to reset before giving up
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+// Cached responses not used for this long are pruned
+const RESPONSE_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
 // Define types for GitHub API responses
 interface GitHubContributor {
   login: string;
+  contributions: number;
+}
+
+export interface RepositoryContributor {
+  login: string;
+  contributions: number;
 }
 
 interface GitHubStargazer {
+  starred_at: string;
   user: {
     login: string;
+  } | null;
+}
+
+export interface RepositoryStargazer {
+  login: string;
+  starredAt: Date;
+}
+
+interface GitHubUser {
+  login: string;
+}
+
+interface GitHubOwner {
+  login: string;
+  type: 'User' | 'Organization';
+}
+
+interface GitHubRepository {
+  name: string;
+  archived: boolean;
+  fork: boolean;
+  private: boolean;
+  topics?: string[];
+}
+
+export interface OwnerRepository {
+  name: string;
+  archived: boolean;
+  fork: boolean;
+  private: boolean;
+  topics: string[];
+}
+
+interface GitHubFork {
+  owner: {
+    login: string;
+  } | null;
+}
+
+interface GitHubCommit {
+  author: { login: string } | null;
+  commit: {
+    author: { date: string } | null;
+  };
+}
+
+export interface CommitAuthor {
+  login: string;
+  lastCommittedAt: Date;
+}
+
+export interface RepositoryPullRequest {
+  number: number;
+  authorLogin: string;
+  createdAt: Date;
+  updatedAt: Date;
+  mergedAt: Date | null;
+}
+
+interface GitHubIssue {
+  number: number;
+  user: { login: string } | null;
+  labels: ({ name?: string } | string)[];
+  created_at: string;
+  updated_at: string;
+  // Only present on pull requests, which the issues endpoint also returns
+  pull_request?: { merged_at?: string | null };
+}
+
+// Options of the endpoints listing pull requests and issues, which page
+// through them least recently updated first
+export interface ActivityListOptions<T> {
+  // Only list items updated at or after this time
+  updatedSince?: Date;
+  // Stop after this many pages, the next call can continue from the update
+  // time of the last page
+  maxPages?: number;
+  // Receives each page, along with the update time of its last item, before
+  // the next page is requested
+  onPage?: (items: T[], updatedAt: Date) => Promise<void>;
+}
+
+export interface RepositoryIssue {
+  number: number;
+  authorLogin: string;
+  // Lowercased label names
+  labels: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface GitHubReview {
+  id: number;
+  user: { login: string } | null;
+  submitted_at?: string | null;
+}
+
+export interface PullRequestReview {
+  id: number;
+  reviewerLogin: string;
+  submittedAt: Date;
+}
+
+// Repository permission levels from lowest to highest
+export const COLLABORATOR_PERMISSIONS = [
+  'read',
+  'triage',
+  'write',
+  'maintain',
+  'admin',
+] as const;
+
+export type CollaboratorPermission = (typeof COLLABORATOR_PERMISSIONS)[number];
+
+interface GitHubCollaborator {
+  login: string;
+  permissions?: {
+    admin?: boolean;
+    maintain?: boolean;
+    push?: boolean;
+    triage?: boolean;
+    pull?: boolean;
+  };
+}
+
+export interface RepositoryCollaborator {
+  login: string;
+  permission: CollaboratorPermission;
+}
+
+function toRepositoryCollaborator(
+  user: GitHubCollaborator,
+): RepositoryCollaborator {
+  const permissions = user.permissions ?? {};
+
+  // Report the highest permission the collaborator holds
+  let permission: CollaboratorPermission = 'read';
+  if (permissions.admin) permission = 'admin';
+  else if (permissions.maintain) permission = 'maintain';
+  else if (permissions.push) permission = 'write';
+  else if (permissions.triage) permission = 'triage';
+
+  return {
+    login: user.login.toLowerCase(),
+    permission,
+  };
+}
+
+export interface GitHubTeam {
+  slug: string;
+  name: string;
+}
+
+export interface Sponsorship {
+  login: string;
+  // Null for custom amounts that don't match a published tier
+  tierName: string | null;
+  monthlyPriceInDollars: number | null;
+  isPrivate: boolean;
+}
+
+export interface SponsorsTier {
+  name: string;
+  monthlyPriceInDollars: number;
+  isOneTime: boolean;
+}
+
+// Rate limit budget as reported by the X-RateLimit-* response headers
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Conditional request outcomes since the client was created
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export class GitHubRateLimitError extends Error {
+  resetAt: Date;
+
+  constructor(resetAt: Date) {
+    super(`GitHub API rate limit exceeded, resets at ${resetAt.toISOString()}`);
+    this.name = 'GitHubRateLimitError';
+    this.resetAt = resetAt;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, GitHubRateLimitError.prototype);
+  }
+}
+
+export interface GitHubApiClientOptions {
+  // Token of the sponsored account, required to read its sponsors
+  sponsorsToken?: string;
+  // Overridable so the client can be pointed at a local fake API
+  baseUrl?: string;
+  graphqlUrl?: string;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string }[];
+}
+
+interface SponsorshipsQueryResult {
+  repositoryOwner: {
+    sponsorshipsAsMaintainer?: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: {
+        isActive: boolean;
+        privacyLevel: 'PUBLIC' | 'PRIVATE';
+        tier: { name: string; monthlyPriceInDollars: number } | null;
+        sponsorEntity: { login?: string } | null;
+      }[];
+    };
+  } | null;
+}
+
+interface SponsorsTiersQueryResult {
+  repositoryOwner: {
+    sponsorsListing?: {
+      tiers: { nodes: SponsorsTier[] } | null;
+    } | null;
+  } | null;
+}
+
+const SPONSORSHIPS_QUERY = `
+  query ($login: String!, $after: String) {
+    repositoryOwner(login: $login) {
+      ... on Sponsorable {
+        sponsorshipsAsMaintainer(
+          first: 100
+          after: $after
+          activeOnly: true
+          includePrivate: true
+        ) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            isActive
+            privacyLevel
+            tier {
+              name
+              monthlyPriceInDollars
+            }
+            sponsorEntity {
+              ... on User {
+                login
+              }
+              ... on Organization {
+                login
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const SPONSORS_TIERS_QUERY = `
+  query ($login: String!) {
+    repositoryOwner(login: $login) {
+      ... on Sponsorable {
+        sponsorsListing {
+          tiers(first: 100) {
+            nodes {
+              name
+              monthlyPriceInDollars
+              isOneTime
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toRepositoryContributor(
+  user: GitHubContributor,
+): RepositoryContributor {
+  return {
+    login: user.login.toLowerCase(),
+    contributions: user.contributions,
   };
 }
 
 export class GitHubApiClient {
-  private baseUrl = 'https://api.github.com';
+  private baseUrl: string;
+  private graphqlUrl: string;
   private headers: Record<string, string>;
+  private authenticated: boolean;
+  private sponsorsToken?: string;
+  // Latest budget reported by GitHub, keyed by resource (core, graphql, ...)
+  private rateLimits = new Map<string, RateLimitStatus>();
+  private responseCacheStats: ResponseCacheStats = { hits: 0, misses: 0 };
 
-  constructor(githubToken?: string) {
+  constructor(githubToken?: string, options: GitHubApiClientOptions = {}) {
+    this.baseUrl = options.baseUrl || 'https://api.github.com';
+    this.graphqlUrl = options.graphqlUrl || 'https://api.github.com/graphql';
     this.headers = {
       Accept: 'application/vnd.github.v3+json',
       'User-Agent': 'discord-github-roles',
@@ -26,19 +341,56 @@ export class GitHubApiClient {
     if (githubToken) {
       this.headers['Authorization'] = `token ${githubToken}`;
     }
+    this.authenticated = !!githubToken;
+    this.sponsorsToken = options.sponsorsToken || githubToken;
+  }
+
+  /**
+   * Get the rate limit budget GitHub last reported for a resource, or null if
+   * no request has been made yet
+   */
+  getRateLimit(resource = 'core'): RateLimitStatus | null {
+    return this.rateLimits.get(resource) ?? null;
+  }
+
+  /**
+   * Get how many requests were answered from the response cache (hits) or
+   * had to download the response (misses)
+   */
+  getResponseCacheStats(): ResponseCacheStats {
+    return { ...this.responseCacheStats };
+  }
+
+  /**
+   * Delete cached responses that haven't been used for a while, e.g. pages of
+   * repositories that are no longer followed
+   */
+  async pruneResponseCache() {
+    const { count } = await prisma.gitHubResponseCache.deleteMany({
+      where: {
+        usedAt: { lt: new Date(Date.now() - RESPONSE_CACHE_MAX_AGE_MS) },
+      },
+    });
+
+    if (count > 0) {
+      log.info({ count }, 'Pruned unused cached GitHub responses');
+    }
   }
 
   /**
-   * Get contributors for a repository
+   * Get contributors for a repository along with their contribution counts
    */
-  async getRepositoryContributors(owner: string, repo: string) {
+  async getRepositoryContributors(
+    owner: string,
+    repo: string,
+  ): Promise<{ contributors: RepositoryContributor[] }> {
     const endpoint = `/repos/${owner}/${repo}/contributors`;
     const url = `${this.baseUrl}${endpoint}`;
 
     try {
       log.debug({ endpoint }, 'Making GitHub API request');
 
-      const response = await fetch(url, {
+      const response = await this.request(url, {
         headers: {
           ...this.headers,
           Accept: 'application/vnd.github.v3+json',
@@ -54,8 +406,8 @@ export class GitHubApiClient {
       // Get the data from the response
       const data = (await response.json()) as GitHubContributor[];
 
-      // Map to an array of usernames/logins
-      let contributors = data?.map((user) => user.login.toLowerCase()) || [];
+      // Map to an array of usernames/logins with their contribution counts
+      let contributors = data?.map(toRepositoryContributor) || [];
 
       // Handle pagination to ensure we get ALL contributors
       let nextUrl = this.getNextPageUrl(response.headers.get('Link'));
@@ -65,7 +417,7 @@ export class GitHubApiClient {
           'Fetching next page of contributors',
         );
 
-        const nextResponse = await fetch(nextUrl, {
+        const nextResponse = await this.request(nextUrl, {
           headers: this.headers,
         });
 
@@ -82,7 +434,7 @@ export class GitHubApiClient {
           // Add contributors from this page
           contributors = [
             ...contributors,
-            ...nextData.map((user) => user.login.toLowerCase()),
+            ...nextData.map(toRepositoryContributor),
           ];
 
           // Get next page URL
@@ -105,79 +457,905 @@ export class GitHubApiClient {
   }
 
   /**
-   * Get stargazers for a repository with pagination support
+   * Get stargazers for a repository along with when they starred it
    */
   async getRepositoryStargazers(owner: string, repo: string) {
     const endpoint = `/repos/${owner}/${repo}/stargazers`;
 
     try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        headers: {
-          ...this.headers,
-          // Request for simple stargazer list
-          Accept: 'application/vnd.github.v3.star+json',
+      // The star media type includes the time each star was given
+      const data = await this.fetchAllPages<GitHubStargazer>(endpoint, {
+        accept: 'application/vnd.github.v3.star+json',
+      });
+
+      const stargazers: RepositoryStargazer[] = data.flatMap((star) =>
+        star && star.user && star.user.login
+          ? [
+              {
+                login: star.user.login.toLowerCase(),
+                starredAt: new Date(star.starred_at),
+              },
+            ]
+          : [],
+      );
+
+      log.info(
+        { owner, repo, count: stargazers.length },
+        'Retrieved repository stargazers',
+      );
+
+      return { stargazers };
+    } catch (error) {
+      logError(log, `Failed to get stargazers for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the GitHub users who authored commits to the default branch of a
+   * repository since a date, along with their latest commit date. Commits
+   * whose email isn't linked to a GitHub account are skipped.
+   */
+  async getCommitAuthors(
+    owner: string,
+    repo: string,
+    { since }: { since: Date },
+  ): Promise<{ authors: CommitAuthor[] }> {
+    const endpoint = `/repos/${owner}/${repo}/commits`;
+
+    try {
+      const data = await this.fetchAllPages<GitHubCommit>(endpoint, {
+        params: { since: since.toISOString() },
+      });
+
+      const lastCommits = new Map<string, Date>();
+      for (const commit of data) {
+        if (!commit.author || !commit.author.login || !commit.commit.author) {
+          continue;
+        }
+
+        const login = commit.author.login.toLowerCase();
+        const committedAt = new Date(commit.commit.author.date);
+        const previous = lastCommits.get(login);
+        if (!previous || committedAt > previous) {
+          lastCommits.set(login, committedAt);
+        }
+      }
+
+      const authors: CommitAuthor[] = [];
+      lastCommits.forEach((lastCommittedAt, login) => {
+        authors.push({ login, lastCommittedAt });
+      });
+
+      log.info(
+        { owner, repo, since, commitCount: data.length, count: authors.length },
+        'Retrieved recent commit authors',
+      );
+
+      return { authors };
+    } catch (error) {
+      logError(log, `Failed to get commits for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the owners of all forks of a repository
+   */
+  async getRepositoryForkOwners(owner: string, repo: string) {
+    const endpoint = `/repos/${owner}/${repo}/forks`;
+
+    try {
+      const data = await this.fetchAllPages<GitHubFork>(endpoint);
+
+      const forkOwners = data.flatMap((fork) =>
+        fork && fork.owner && fork.owner.login
+          ? [fork.owner.login.toLowerCase()]
+          : [],
+      );
+
+      log.info(
+        { owner, repo, count: forkOwners.length },
+        'Retrieved repository fork owners',
+      );
+
+      return { forkOwners };
+    } catch (error) {
+      logError(log, `Failed to get forks for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get users watching (subscribed to notifications of) a repository
+   */
+  async getRepositoryWatchers(owner: string, repo: string) {
+    const endpoint = `/repos/${owner}/${repo}/subscribers`;
+
+    try {
+      const data = await this.fetchAllPages<GitHubUser>(endpoint);
+
+      const watchers = data
+        .filter((user) => user && user.login)
+        .map((user) => user.login.toLowerCase());
+
+      log.info(
+        { owner, repo, count: watchers.length },
+        'Retrieved repository watchers',
+      );
+
+      return { watchers };
+    } catch (error) {
+      logError(log, `Failed to get watchers for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get collaborators of a repository along with their highest permission
+   * level. Requires a token with push access to the repository.
+   */
+  async getRepositoryCollaborators(
+    owner: string,
+    repo: string,
+  ): Promise<{ collaborators: RepositoryCollaborator[] }> {
+    const endpoint = `/repos/${owner}/${repo}/collaborators`;
+
+    if (!this.authenticated) {
+      throw new Error('Listing repository collaborators requires a token');
+    }
+
+    try {
+      const data = await this.fetchAllPages<GitHubCollaborator>(endpoint, {
+        params: { affiliation: 'all' },
+      });
+
+      const collaborators = data
+        .filter((user) => user && user.login)
+        .map(toRepositoryCollaborator);
+
+      log.info(
+        { owner, repo, count: collaborators.length },
+        'Retrieved repository collaborators',
+      );
+
+      return { collaborators };
+    } catch (error) {
+      logError(log, `Failed to get collaborators for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pull requests of a repository, least recently updated first. They are
+   * listed through the issues endpoint, which unlike the pull requests
+   * endpoint can filter by update time, so repeated syncs only page through
+   * recent changes.
+   */
+  async getPullRequests(
+    owner: string,
+    repo: string,
+    options: ActivityListOptions<RepositoryPullRequest> = {},
+  ): Promise<{ pullRequests: RepositoryPullRequest[] }> {
+    try {
+      const pullRequests = await this.fetchIssuePages(
+        owner,
+        repo,
+        options,
+        (issue) =>
+          // Skip issues and pull requests of deleted accounts
+          issue.pull_request && issue.user?.login
+            ? [
+                {
+                  number: issue.number,
+                  authorLogin: issue.user.login.toLowerCase(),
+                  createdAt: new Date(issue.created_at),
+                  updatedAt: new Date(issue.updated_at),
+                  mergedAt: issue.pull_request.merged_at
+                    ? new Date(issue.pull_request.merged_at)
+                    : null,
+                },
+              ]
+            : [],
+      );
+
+      log.info(
+        {
+          owner,
+          repo,
+          count: pullRequests.length,
+          updatedSince: options.updatedSince,
+        },
+        'Retrieved repository pull requests',
+      );
+
+      return { pullRequests };
+    } catch (error) {
+      logError(log, `Failed to get pull requests for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get issues of a repository, excluding pull requests, least recently
+   * updated first. With `updatedSince`, only issues updated at or after that
+   * time are fetched.
+   */
+  async getIssues(
+    owner: string,
+    repo: string,
+    options: ActivityListOptions<RepositoryIssue> = {},
+  ): Promise<{ issues: RepositoryIssue[] }> {
+    try {
+      const issues = await this.fetchIssuePages(owner, repo, options, (issue) =>
+        // Skip pull requests and issues of deleted accounts
+        !issue.pull_request && issue.user?.login
+          ? [
+              {
+                number: issue.number,
+                authorLogin: issue.user.login.toLowerCase(),
+                labels: issue.labels
+                  .map((label) =>
+                    typeof label === 'string' ? label : label.name || '',
+                  )
+                  .filter((label) => label)
+                  .map((label) => label.toLowerCase()),
+                createdAt: new Date(issue.created_at),
+                updatedAt: new Date(issue.updated_at),
+              },
+            ]
+          : [],
+      );
+
+      log.info(
+        {
+          owner,
+          repo,
+          count: issues.length,
+          updatedSince: options.updatedSince,
         },
+        'Retrieved repository issues',
+      );
+
+      return { issues };
+    } catch (error) {
+      logError(log, `Failed to get issues for ${owner}/${repo}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the submitted reviews of a pull request
+   */
+  async getPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+  ): Promise<{ reviews: PullRequestReview[] }> {
+    const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`;
+
+    try {
+      const data = await this.fetchAllPages<GitHubReview>(endpoint);
+
+      const reviews = data.flatMap((review) =>
+        // Pending reviews have no submission time yet
+        review.user?.login && review.submitted_at
+          ? [
+              {
+                id: review.id,
+                reviewerLogin: review.user.login.toLowerCase(),
+                submittedAt: new Date(review.submitted_at),
+              },
+            ]
+          : [],
+      );
+
+      log.debug(
+        { owner, repo, pullNumber, count: reviews.length },
+        'Retrieved pull request reviews',
+      );
+
+      return { reviews };
+    } catch (error) {
+      logError(
+        log,
+        `Failed to get reviews of ${owner}/${repo}#${pullNumber}`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get an organization, or null if it doesn't exist or isn't visible to the
+   * configured token
+   */
+  async getOrganization(org: string): Promise<{ login: string } | null> {
+    try {
+      const organization = await this.fetchJson<GitHubOwner>(`/orgs/${org}`);
+      return organization ? { login: organization.login } : null;
+    } catch (error) {
+      logError(log, `Failed to get organization ${org}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get members of an organization. Without a token only members who made
+   * their membership public are visible, with one all members the token can
+   * see are returned.
+   */
+  async getOrganizationMembers(org: string): Promise<{ members: string[] }> {
+    const endpoint = this.authenticated
+      ? `/orgs/${org}/members`
+      : `/orgs/${org}/public_members`;
+
+    try {
+      const data = await this.fetchAllPages<GitHubUser>(endpoint);
+
+      const members = data
+        .filter((user) => user && user.login)
+        .map((user) => user.login.toLowerCase());
+
+      log.info(
+        { org, count: members.length, publicOnly: !this.authenticated },
+        'Retrieved organization members',
+      );
+
+      return { members };
+    } catch (error) {
+      logError(log, `Failed to get members of organization ${org}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the repositories owned by an organization or user. Private
+   * repositories are included when the token can see them: for organizations
+   * any token with access, for users only their own token. Returns null if
+   * no organization or user with that login exists.
+   */
+  async getOwnerRepositories(owner: string): Promise<OwnerRepository[] | null> {
+    try {
+      const account = await this.fetchJson<GitHubOwner>(`/users/${owner}`);
+      if (!account) {
+        return null;
+      }
+
+      let endpoint: string;
+      let params: Record<string, string>;
+      if (account.type === 'Organization') {
+        endpoint = `/orgs/${owner}/repos`;
+        params = { type: 'all' };
+      } else {
+        // Private repositories of a user are only listed for their own token
+        const viewer = this.authenticated
+          ? await this.fetchJson<GitHubOwner>('/user')
+          : null;
+        const isViewer =
+          viewer?.login.toLowerCase() === account.login.toLowerCase();
+
+        endpoint = isViewer ? '/user/repos' : `/users/${owner}/repos`;
+        params = isViewer
+          ? { affiliation: 'owner', visibility: 'all' }
+          : { type: 'owner' };
+      }
+
+      const data = await this.fetchAllPages<GitHubRepository>(endpoint, {
+        params,
       });
 
-      // Handle response errors
+      const repositories = data.map((repo) => ({
+        name: repo.name.toLowerCase(),
+        archived: repo.archived,
+        fork: repo.fork,
+        private: repo.private,
+        topics: (repo.topics ?? []).map((topic) => topic.toLowerCase()),
+      }));
+
+      log.info(
+        { owner, type: account.type, count: repositories.length },
+        'Retrieved owner repositories',
+      );
+
+      return repositories;
+    } catch (error) {
+      logError(log, `Failed to get repositories of ${owner}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a team of an organization, or null if it doesn't exist or isn't
+   * visible to the configured token
+   */
+  async getTeam(org: string, teamSlug: string): Promise<GitHubTeam | null> {
+    const endpoint = `/orgs/${org}/teams/${teamSlug}`;
+
+    try {
+      log.debug({ endpoint }, 'Making GitHub API request');
+
+      const response = await this.request(`${this.baseUrl}${endpoint}`, {
+        headers: this.headers,
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+
       if (!response.ok) {
         const errorData = await response.text();
         throw new Error(`GitHub API error: ${response.status} - ${errorData}`);
       }
 
-      // Get the data from the response
-      const data = (await response.json()) as GitHubStargazer[];
+      const team = (await response.json()) as GitHubTeam;
+      return { slug: team.slug, name: team.name };
+    } catch (error) {
+      logError(log, `Failed to get team ${org}/${teamSlug}`, error);
+      throw error;
+    }
+  }
 
-      let stargazers =
-        data
-          .filter((star) => star && star.user && star.user.login)
-          .map((star) => star.user.login.toLowerCase()) || [];
+  /**
+   * Get members of a team. GitHub includes members of nested child teams in
+   * this list. Requires a token that can see the team.
+   */
+  async getTeamMembers(
+    org: string,
+    teamSlug: string,
+  ): Promise<{ members: string[] }> {
+    const endpoint = `/orgs/${org}/teams/${teamSlug}/members`;
 
-      // Handle pagination to ensure we get ALL stargazers
-      let nextUrl = this.getNextPageUrl(response.headers.get('Link'));
-      while (nextUrl) {
-        log.debug({ owner, repo, nextUrl }, 'Fetching next page of stargazers');
+    try {
+      const data = await this.fetchAllPages<GitHubUser>(endpoint);
 
-        const nextResponse = await fetch(nextUrl, {
-          headers: this.headers,
-        });
+      const members = data
+        .filter((user) => user && user.login)
+        .map((user) => user.login.toLowerCase());
 
-        if (!nextResponse.ok) {
-          const errorData = await nextResponse.text();
-          throw new Error(
-            `GitHub API error: ${nextResponse.status} - ${errorData}`,
+      log.info(
+        { org, teamSlug, count: members.length },
+        'Retrieved team members',
+      );
+
+      return { members };
+    } catch (error) {
+      logError(log, `Failed to get members of team ${org}/${teamSlug}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the active sponsors of a user or organization. Private sponsorships
+   * are included and flagged, ended sponsorships are not returned. Requires a
+   * token of the sponsored account.
+   */
+  async getSponsors(sponsorable: string): Promise<{ sponsors: Sponsorship[] }> {
+    try {
+      const sponsors: Sponsorship[] = [];
+      let after: string | null = null;
+
+      do {
+        const data: SponsorshipsQueryResult =
+          await this.graphql<SponsorshipsQueryResult>(
+            SPONSORSHIPS_QUERY,
+            { login: sponsorable, after },
+            this.sponsorsToken,
           );
-        }
 
-        const nextData = (await nextResponse.json()) as GitHubStargazer[];
+        const connection = data.repositoryOwner?.sponsorshipsAsMaintainer;
+        if (!connection) {
+          throw new Error(`${sponsorable} cannot be sponsored on GitHub`);
+        }
 
-        if (nextData && nextData.length > 0) {
-          stargazers = [
-            ...stargazers,
-            ...nextData
-              .filter((star) => star && star.user && star.user.login)
-              .map((star) => star.user.login.toLowerCase()),
-          ];
+        for (const node of connection.nodes) {
+          // Sponsors whose account was deleted have no entity
+          if (!node.isActive || !node.sponsorEntity?.login) continue;
 
-          // Get next page URL
-          nextUrl = this.getNextPageUrl(nextResponse.headers.get('Link'));
-        } else {
-          break;
+          sponsors.push({
+            login: node.sponsorEntity.login.toLowerCase(),
+            tierName: node.tier?.name ?? null,
+            monthlyPriceInDollars: node.tier?.monthlyPriceInDollars ?? null,
+            isPrivate: node.privacyLevel === 'PRIVATE',
+          });
         }
-      }
 
-      log.info(
-        { owner, repo, count: stargazers.length },
-        'Retrieved repository stargazers',
+        after = connection.pageInfo.hasNextPage
+          ? connection.pageInfo.endCursor
+          : null;
+      } while (after);
+
+      log.info({ sponsorable, count: sponsors.length }, 'Retrieved sponsors');
+
+      return { sponsors };
+    } catch (error) {
+      logError(log, `Failed to get sponsors of ${sponsorable}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the published sponsorship tiers of a user or organization, or null if
+   * the account has no GitHub Sponsors profile
+   */
+  async getSponsorsTiers(sponsorable: string): Promise<SponsorsTier[] | null> {
+    try {
+      const data = await this.graphql<SponsorsTiersQueryResult>(
+        SPONSORS_TIERS_QUERY,
+        { login: sponsorable },
+        this.sponsorsToken,
       );
 
-      return { stargazers };
+      const listing = data.repositoryOwner?.sponsorsListing;
+      if (!listing) return null;
+
+      return listing.tiers?.nodes ?? [];
     } catch (error) {
-      logError(log, `Failed to get stargazers for ${owner}/${repo}`, error);
+      logError(log, `Failed to get sponsors tiers of ${sponsorable}`, error);
       throw error;
     }
   }
 
+  /**
+   * Run a GraphQL query, throwing on HTTP and GraphQL errors
+   */
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    token?: string,
+  ): Promise<T> {
+    if (!token) {
+      throw new Error('The GitHub GraphQL API requires a token');
+    }
+
+    log.debug({ url: this.graphqlUrl }, 'Making GitHub GraphQL request');
+
+    const response = await this.request(
+      this.graphqlUrl,
+      {
+        method: 'POST',
+        headers: {
+          ...this.headers,
+          Authorization: `bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+      },
+      'graphql',
+    );
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`GitHub API error: ${response.status} - ${errorData}`);
+    }
+
+    const result = (await response.json()) as GraphQLResponse<T>;
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(
+        `GitHub GraphQL error: ${result.errors.map((e) => e.message).join('; ')}`,
+      );
+    }
+    if (!result.data) {
+      throw new Error('GitHub GraphQL response contained no data');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Page through the issues of a repository, least recently updated first,
+   * keeping the items `toItems` maps each issue to
+   */
+  private async fetchIssuePages<T>(
+    owner: string,
+    repo: string,
+    { updatedSince, maxPages, onPage }: ActivityListOptions<T>,
+    toItems: (issue: GitHubIssue) => T[],
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    await this.fetchAllPages<GitHubIssue>(`/repos/${owner}/${repo}/issues`, {
+      params: {
+        state: 'all',
+        sort: 'updated',
+        direction: 'asc',
+        ...(updatedSince ? { since: updatedSince.toISOString() } : {}),
+      },
+      maxPages,
+      onPage: async (issues) => {
+        const pageItems = issues.flatMap(toItems);
+        items.push(...pageItems);
+
+        if (onPage) {
+          await onPage(
+            pageItems,
+            new Date(issues[issues.length - 1].updated_at),
+          );
+        }
+      },
+    });
+
+    return items;
+  }
+
+  /**
+   * Fetch every page of a list endpoint, following the Link header. With
+   * `maxPages`, pagination ends after that many pages. `onPage` receives each
+   * page before the next one is requested.
+   */
+  private async fetchAllPages<T>(
+    endpoint: string,
+    {
+      params = {},
+      accept,
+      maxPages,
+      onPage,
+    }: {
+      params?: Record<string, string>;
+      accept?: string;
+      maxPages?: number;
+      onPage?: (items: T[]) => Promise<void>;
+    } = {},
+  ): Promise<T[]> {
+    const results: T[] = [];
+    const query = new URLSearchParams({ per_page: '100', ...params });
+    let nextUrl: string | null = `${this.baseUrl}${endpoint}?${query}`;
+    let pages = 0;
+
+    while (nextUrl && (!maxPages || pages < maxPages)) {
+      log.debug({ url: nextUrl }, 'Making GitHub API request');
+
+      const response = await this.request(nextUrl, {
+        headers: accept ? { ...this.headers, Accept: accept } : this.headers,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`GitHub API error: ${response.status} - ${errorData}`);
+      }
+
+      const data = (await response.json()) as T[];
+      if (!data || data.length === 0) break;
+
+      if (onPage) await onPage(data);
+
+      results.push(...data);
+      pages++;
+      nextUrl = this.getNextPageUrl(response.headers.get('Link'));
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch a single resource, returning null if it doesn't exist
+   */
+  private async fetchJson<T>(endpoint: string): Promise<T | null> {
+    log.debug({ endpoint }, 'Making GitHub API request');
+
+    const response = await this.request(`${this.baseUrl}${endpoint}`, {
+      headers: this.headers,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`GitHub API error: ${response.status} - ${errorData}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Make a request, revalidating GET requests against the response cache.
+   * GitHub answers an unchanged resource with a 304, which doesn't count
+   * against the rate limit, and the cached body is returned instead.
+   */
+  private async request(
+    url: string,
+    init: RequestInit,
+    resource = 'core',
+  ): Promise<Response> {
+    if (init.method && init.method !== 'GET') {
+      return this.fetchWithRetries(url, init, resource);
+    }
+
+    const headers = new Headers(init.headers);
+    const accept = headers.get('Accept') ?? '';
+    const cached = await prisma.gitHubResponseCache
+      .findUnique({ where: { url_accept: { url, accept } } })
+      .catch((error) => {
+        logError(log, 'Failed to read cached GitHub response', error);
+        return null;
+      });
+
+    if (cached?.etag) headers.set('If-None-Match', cached.etag);
+    if (cached?.lastModified) {
+      headers.set('If-Modified-Since', cached.lastModified);
+    }
+
+    const response = await this.fetchWithRetries(
+      url,
+      { ...init, headers },
+      resource,
+    );
+
+    if (cached && response.status === 304) {
+      this.responseCacheStats.hits++;
+      await prisma.gitHubResponseCache
+        .update({ where: { id: cached.id }, data: { usedAt: new Date() } })
+        .catch((error) =>
+          logError(log, 'Failed to update cached GitHub response', error),
+        );
+
+      return new Response(cached.body, {
+        status: 200,
+        headers: cached.linkHeader ? { Link: cached.linkHeader } : {},
+      });
+    }
+
+    this.responseCacheStats.misses++;
+
+    const etag = response.headers.get('ETag');
+    const lastModified = response.headers.get('Last-Modified');
+    if (response.status === 200 && (etag || lastModified)) {
+      const data = {
+        etag,
+        lastModified,
+        linkHeader: response.headers.get('Link'),
+        body: await response.clone().text(),
+        usedAt: new Date(),
+      };
+
+      await prisma.gitHubResponseCache
+        .upsert({
+          where: { url_accept: { url, accept } },
+          create: { url, accept, ...data },
+          update: data,
+        })
+        .catch((error) =>
+          logError(log, 'Failed to cache GitHub response', error),
+        );
+    }
+
+    return response;
+  }
+
+  /**
+   * Make a request, waiting for an exhausted rate limit to reset and retrying
+   * network errors, server errors and secondary rate limits with exponential
+   * backoff. Other error responses are returned for the caller to handle.
+   * Throws a GitHubRateLimitError if the rate limit resets too far ahead.
+   */
+  private async fetchWithRetries(
+    url: string,
+    init: RequestInit,
+    resource: string,
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(resource);
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        if (attempt >= MAX_RETRIES) throw error;
+
+        const delayMs = this.getBackoffDelay(attempt);
+        log.warn(
+          {
+            url,
+            attempt: attempt + 1,
+            delayMs,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'GitHub API request failed, retrying',
+        );
+        await sleep(delayMs);
+        continue;
+      }
+
+      this.updateRateLimit(response);
+
+      const delayMs = await this.getRetryDelay(response, attempt);
+      if (delayMs === null || attempt >= MAX_RETRIES) return response;
+
+      if (delayMs > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new GitHubRateLimitError(new Date(Date.now() + delayMs));
+      }
+
+      log.warn(
+        { url, status: response.status, attempt: attempt + 1, delayMs },
+        'GitHub API request failed, retrying',
+      );
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Wait until the rate limit of a resource resets if it is exhausted
+   */
+  private async waitForRateLimit(resource: string) {
+    const rateLimit = this.rateLimits.get(resource);
+    if (!rateLimit || rateLimit.remaining > 0) return;
+
+    const waitMs = rateLimit.resetAt.getTime() - Date.now();
+    if (waitMs <= 0) return;
+
+    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new GitHubRateLimitError(rateLimit.resetAt);
+    }
+
+    log.warn(
+      { resource, resetAt: rateLimit.resetAt, waitMs },
+      'GitHub rate limit exhausted, waiting for it to reset',
+    );
+    await sleep(waitMs);
+  }
+
+  private updateRateLimit(response: Response) {
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (!limit || !remaining || !reset) return;
+
+    const resource = response.headers.get('X-RateLimit-Resource') || 'core';
+    this.rateLimits.set(resource, {
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: new Date(parseInt(reset, 10) * 1000),
+    });
+  }
+
+  /**
+   * Get how long to wait before retrying a response, or null if it should
+   * not be retried
+   */
+  private async getRetryDelay(
+    response: Response,
+    attempt: number,
+  ): Promise<number | null> {
+    if (response.status >= 500) {
+      return this.getBackoffDelay(attempt);
+    }
+
+    if (response.status !== 403 && response.status !== 429) {
+      return null;
+    }
+
+    // Primary rate limit, waitForRateLimit() waits for the reset
+    if (response.headers.get('X-RateLimit-Remaining') === '0') {
+      return 0;
+    }
+
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      return parseInt(retryAfter, 10) * 1000;
+    }
+
+    // Any other 403 is a permission error rather than a secondary rate limit
+    if (response.status === 403) {
+      const errorData = await response.clone().text();
+      if (!/secondary rate limit/i.test(errorData)) return null;
+    }
+
+    return this.getBackoffDelay(attempt);
+  }
+
+  /**
+   * Exponential backoff with jitter, so concurrent requests don't retry in
+   * lockstep
+   */
+  private getBackoffDelay(attempt: number) {
+    return (
+      RETRY_BASE_DELAY_MS * Math.pow(2, attempt) +
+      Math.random() * RETRY_BASE_DELAY_MS
+    );
+  }
+
   /**
    * Extract next page URL from Link header
    */
@@ -1,18 +1,235 @@
-import { Client, GuildMember } from 'discord.js';
+import { Client, GatewayIntentBits, Guild, GuildMember } from 'discord.js';
 import { prisma } from '../index';
 import { createChildLogger, logError } from '../utils/logger';
-import { GitHubApiClient } from './github-api';
-import { FollowedRepository, GuildConfig } from '@prisma/client';
+import {
+  COLLABORATOR_PERMISSIONS,
+  CollaboratorPermission,
+  GitHubApiClient,
+  OwnerRepository,
+  Sponsorship,
+} from './github-api';
+import {
+  evaluateRule,
+  getRuleFactKinds,
+  parseRuleExpression,
+  RuleEvaluation,
+  RuleExpression,
+  RuleFacts,
+} from './rule-engine';
+import { FollowedOwner, Prisma } from '@prisma/client';
+import pino from 'pino';
 
 const log = createChildLogger('role-sync');
 
+// Relationship kinds a repository role mapping can be based on
+export const REPOSITORY_ROLE_KINDS = ['contributor', 'stargazer'] as const;
+export type RepositoryRoleKind = (typeof REPOSITORY_ROLE_KINDS)[number];
+
+// Relations needed to evaluate every role configured for a guild
+const syncGuildConfigInclude = {
+  repositories: true,
+  roleMappings: {
+    include: { repository: true },
+  },
+  contributorTiers: true,
+  earlyStargazerRules: {
+    include: { repository: true },
+  },
+  organizations: true,
+  teamRoleMappings: true,
+  sponsorRoleMappings: true,
+  roleRules: true,
+} satisfies Prisma.GuildConfigInclude;
+
+type SyncGuildConfig = Prisma.GuildConfigGetPayload<{
+  include: typeof syncGuildConfigInclude;
+}>;
+
+// Data gathered for a single repository, keyed by lowercased GitHub login.
+// Only the data needed by the configured roles is fetched.
+interface RepoData {
+  contributors?: Map<string, number>;
+  // Star date of each stargazer, ordered from the first star to the latest
+  stargazers?: Map<string, Date>;
+  forkOwners?: Set<string>;
+  watchers?: Set<string>;
+  pullRequests?: PullRequestAuthors;
+  // Labels of the issues opened by each author
+  issueAuthors?: Map<string, Set<string>>;
+  reviewers?: Set<string>;
+  collaborators?: Map<string, CollaboratorPermission>;
+  recentCommitAuthors?: RecentCommitAuthors;
+}
+
+export type RepoDataKind = keyof RepoData;
+
+// Latest commit date of each author who committed since `since`
+interface RecentCommitAuthors {
+  since: Date;
+  lastCommittedAt: Map<string, Date>;
+}
+
+// Repository data of a sync, along with the kinds of data that could not be
+// fetched, keyed by repository
+interface RepoDataSnapshot {
+  repoDataMap: Map<string, RepoData>;
+  failedRepoData: Map<string, Set<RepoDataKind>>;
+}
+
+interface PullRequestAuthors {
+  openedBy: Set<string>;
+  mergedBy: Set<string>;
+}
+
+// A pull request, issue or review to store in RepositoryActivity
+interface ActivityRecord {
+  number: number;
+  // Review ID of reviews, several reviews share a pull request number
+  externalId?: string;
+  authorLogin: string;
+  createdAt: Date;
+  mergedAt?: Date | null;
+  labels?: string[];
+}
+
+interface RepoDataCacheEntry {
+  data: RepoData;
+  fetchedAt: Partial<Record<keyof RepoData, number>>;
+}
+
+// Organization, team and sponsor data, cached like repository data
+interface GitHubDataCacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+// Everything besides the guild config that role planning for a guild needs
+interface GuildSyncState {
+  repoDataMap: Map<string, RepoData>;
+  // Kinds of data that could not be fetched, keyed by repository
+  failedRepoData: Map<string, Set<RepoDataKind>>;
+  // Lowercased member logins, keyed by organization login
+  organizationMembers: Map<string, Set<string>>;
+  // Lowercased member logins, keyed by "org/team-slug"
+  teamMembers: Map<string, Set<string>>;
+  // Active sponsorships keyed by sponsored account and then sponsor login
+  sponsors: Map<string, Map<string, Sponsorship>>;
+  // Roles granted by the bot itself, keyed by Discord ID
+  grantedRoles: Map<string, Set<string>>;
+  // Since when members have been ineligible for a role, keyed by Discord ID
+  // and then role ID
+  pendingRemovals: Map<string, Map<string, Date>>;
+  // Roles whose GitHub data is incomplete, which are not removed
+  incompleteRoleIds: Set<string>;
+}
+
+// Whether a member should hold a role according to a single role source
+interface RoleDecision {
+  roleId: string;
+  qualifies: boolean;
+  reason: string;
+}
+
+export interface RoleChange {
+  roleId: string;
+  roleName: string;
+  action: 'add' | 'remove';
+  reason: string;
+}
+
+interface MemberRoleChanges {
+  changes: RoleChange[];
+  // Removals held back until the member has been ineligible for the whole
+  // grace period
+  deferredRemovals: RoleChange[];
+  // Removals skipped because the GitHub data of the role is incomplete, so
+  // the member may still qualify
+  skippedRemovals: RoleChange[];
+}
+
+interface MemberRolePlan extends MemberRoleChanges {
+  member: GuildMember;
+  githubUsername: string;
+}
+
+interface GuildPlan {
+  plans: MemberRolePlan[];
+  state: GuildSyncState;
+  timings: Record<string, number>;
+}
+
+// Repositories fetched at the same time when syncing all guilds
+const REPO_FETCH_CONCURRENCY = 4;
+
+// Maximum number of user IDs Discord accepts in a single gateway member request
+const MEMBER_FETCH_BATCH_SIZE = 100;
+
+// Discord rejects audit log reasons longer than this
+const AUDIT_LOG_REASON_MAX_LENGTH = 512;
+
+// How long repository data can be reused by targeted single user syncs
+const REPO_DATA_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Activity kinds stored in RepositoryActivity, each with its own sync cursor
+const ACTIVITY_KINDS = {
+  pullRequest: 'pull_request',
+  issue: 'issue',
+  review: 'review',
+} as const;
+
+type ActivityKind = (typeof ACTIVITY_KINDS)[keyof typeof ACTIVITY_KINDS];
+
+// Label names can contain commas but not line breaks
+const ACTIVITY_LABEL_SEPARATOR = '\n';
+
+// Number of activity rows written per database transaction
+const ACTIVITY_WRITE_BATCH_SIZE = 100;
+
+// Pages of pull requests or issues fetched per sync, longer histories are
+// fetched over several syncs
+const ACTIVITY_PAGES_PER_SYNC = 10;
+
+// Number of pull requests whose reviews are stored before moving the cursor
+const REVIEW_FETCH_BATCH_SIZE = 20;
+
+// How far back the first review fetch of a repository looks
+const REVIEW_BACKFILL_DAYS = 365;
+
+export interface UserSyncResult {
+  guildId: string;
+  guildName: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface SyncPreviewEntry {
+  discordId: string;
+  discordTag: string;
+  githubUsername: string;
+  changes: RoleChange[];
+  deferredRemovals: RoleChange[];
+  skippedRemovals: RoleChange[];
+}
+
+export interface RuleTestResult {
+  githubUsername: string;
+  evaluation: RuleEvaluation;
+}
+
 export class RoleSyncService {
   private discordClient: Client;
   private githubClient: GitHubApiClient;
+  private repoDataCache = new Map<string, RepoDataCacheEntry>();
+  private githubDataCache = new Map<string, GitHubDataCacheEntry>();
+  // Star rank of each stargazer, keyed by the stargazer map it was built from
+  private stargazerRanks = new WeakMap<
+    Map<string, Date>,
+    Map<string, number>
+  >();
 
-  constructor(discordClient: Client, githubToken?: string) {
+  constructor(discordClient: Client, githubClient: GitHubApiClient) {
     this.discordClient = discordClient;
-    this.githubClient = new GitHubApiClient(githubToken);
+    this.githubClient = githubClient;
   }
 
   /**
@@ -22,34 +239,50 @@ export class RoleSyncService {
     try {
       log.info('Starting sync for all guilds');
 
+      const startCacheStats = this.githubClient.getResponseCacheStats();
+
+      // Pick up repositories created in, or removed from, followed owners
+      await this.resolveFollowedOwners();
+
       // Get all configured guilds
-      const guildConfigs = await prisma.guildConfig.findMany({
-        where: {
-          OR: [
-            { contributorRoleId: { not: null } },
-            { stargazerRoleId: { not: null } },
-          ],
-          repositories: {
-            some: {},
-          },
-        },
-        include: {
-          repositories: true,
-        },
-      });
+      const guildConfigs = await this.loadConfiguredGuilds();
 
       log.info({ count: guildConfigs.length }, 'Found guilds to sync');
 
+      // Repositories followed by several guilds are only fetched once
+      const snapshot = await this.fetchSharedRepoData(guildConfigs);
+
+      // Linked accounts are shared by every guild, so load them only once
+      const linkedAccounts = await this.loadLinkedAccounts();
+
+      log.info(
+        { count: linkedAccounts.size },
+        'Found linked Discord-GitHub accounts',
+      );
+
       // Process each guild
       for (const guildConfig of guildConfigs) {
         try {
-          await this.syncGuild(guildConfig);
+          await this.syncGuild(guildConfig, linkedAccounts, snapshot);
         } catch (error) {
           logError(log, `Failed to sync guild ${guildConfig.guildId}`, error);
         }
       }
 
-      log.info('Completed sync for all guilds');
+      const cacheStats = this.githubClient.getResponseCacheStats();
+      log.info(
+        {
+          cacheHits: cacheStats.hits - startCacheStats.hits,
+          cacheMisses: cacheStats.misses - startCacheStats.misses,
+        },
+        'Completed sync for all guilds',
+      );
+
+      await this.githubClient
+        .pruneResponseCache()
+        .catch((error) =>
+          logError(log, 'Failed to prune GitHub response cache', error),
+        );
     } catch (error) {
       logError(log, 'Error during global guild sync', error);
       throw error;
@@ -57,328 +290,3109 @@ export class RoleSyncService {
   }
 
   /**
-   * Sync GitHub roles for a specific guild
+   * Follow the current repositories of every followed owner, or only those of
+   * one guild. Repositories that stopped matching the owner's filters are
+   * unfollowed again, unless they have role mappings or early stargazer
+   * rules, which keeps them followed individually. Owners whose repositories
+   * can't be fetched keep the repositories resolved earlier.
    */
-  private async syncGuild(
-    guildConfig: GuildConfig & { repositories: FollowedRepository[] },
-  ) {
-    const guildLog = log.child({
-      guildId: guildConfig.guildId,
-      contributorRoleId: guildConfig.contributorRoleId,
-      stargazerRoleId: guildConfig.stargazerRoleId,
-      repositoryCount: guildConfig.repositories.length,
+  public async resolveFollowedOwners(guildId?: string) {
+    const followedOwners = await prisma.followedOwner.findMany({
+      where: guildId ? { guildConfig: { guildId } } : {},
+      include: { guildConfig: { select: { guildId: true } } },
     });
 
-    guildLog.info('Starting guild sync');
-
-    // Create sync history record
-    const syncHistory = await prisma.guildSyncHistory.create({
-      data: {
-        guildConfigId: guildConfig.id,
-        startedAt: new Date(),
-      },
-    });
+    // Owners followed by several guilds are only fetched once
+    const ownerRepositories = new Map<string, OwnerRepository[] | null>();
 
-    let totalProcessed = 0;
-    let rolesAdded = 0;
-    let rolesRemoved = 0;
+    for (const followedOwner of followedOwners) {
+      const ownerLog = log.child({
+        guildId: followedOwner.guildConfig.guildId,
+        owner: followedOwner.login,
+      });
 
-    try {
-      // Get guild from Discord
-      const guild = this.discordClient.guilds.cache.get(guildConfig.guildId);
-      if (!guild) {
-        throw new Error(`Guild not found in Discord: ${guildConfig.guildId}`);
-      }
+      try {
+        let repositories = ownerRepositories.get(followedOwner.login);
+        if (repositories === undefined) {
+          repositories = await this.githubClient.getOwnerRepositories(
+            followedOwner.login,
+          );
+          ownerRepositories.set(followedOwner.login, repositories);
+        }
 
-      // Make sure we have permission to manage roles
-      const botMember = await guild.members.fetchMe();
-      if (!botMember.permissions.has('ManageRoles')) {
-        throw new Error('Bot does not have "Manage Roles" permission');
-      }
+        if (!repositories) {
+          ownerLog.warn(
+            'Followed owner no longer exists, keeping resolved repositories',
+          );
+          continue;
+        }
 
-      // Get all Discord users with connected GitHub accounts
-      const linkedUsers = await prisma.user.findMany({
-        where: {
-          discordAccount: {
-            isNot: null,
-          },
-          gitHubAccount: {
-            isNot: null,
-          },
-        },
-        include: {
-          discordAccount: true,
-          gitHubAccount: true,
-        },
-      });
+        const matchingNames = repositories
+          .filter((repo) => this.matchesOwnerFilters(followedOwner, repo))
+          .map((repo) => repo.name);
 
-      guildLog.info(
-        { count: linkedUsers.length },
-        'Found linked Discord-GitHub accounts',
-      );
+        const stale = {
+          followedOwnerId: followedOwner.id,
+          name: { notIn: matchingNames },
+        };
 
-      // Fetch all repositories data
-      const repoDataMap = new Map();
+        // Deleting a repository would also delete the roles set up for it
+        const kept = await prisma.followedRepository.updateMany({
+          where: {
+            ...stale,
+            OR: [
+              { roleMappings: { some: {} } },
+              { earlyStargazerRules: { some: {} } },
+            ],
+          },
+          data: { followedOwnerId: null },
+        });
+        if (kept.count > 0) {
+          ownerLog.warn(
+            { kept: kept.count },
+            'Repositories no longer match the owner filters but have role mappings, keeping them followed individually',
+          );
+        }
 
-      // Process all repositories and gather data
-      for (const repo of guildConfig.repositories) {
-        try {
-          const repoFullName = `${repo.owner}/${repo.name}`;
-          let contributors: string[] = [];
-          let stargazers: string[] = [];
-
-          // Get contributors if needed
-          if (guildConfig.contributorRoleId) {
-            const { contributors: repoContributors } =
-              await this.githubClient.getRepositoryContributors(
-                repo.owner,
-                repo.name,
-              );
-            contributors = repoContributors || [];
-            guildLog.info(
-              { repo: repoFullName, count: contributors.length },
-              'Retrieved repository contributors',
-            );
-          }
+        const removed = await prisma.followedRepository.deleteMany({
+          where: stale,
+        });
 
-          // Get stargazers if needed
-          if (guildConfig.stargazerRoleId) {
-            const { stargazers: repoStargazers } =
-              await this.githubClient.getRepositoryStargazers(
-                repo.owner,
-                repo.name,
-              );
-            stargazers = repoStargazers || [];
-            guildLog.info(
-              { repo: repoFullName, count: stargazers.length },
-              'Retrieved repository stargazers',
-            );
-          }
+        // Repositories that are already followed, individually or through
+        // this owner, are left as they are
+        const existing = await prisma.followedRepository.findMany({
+          where: {
+            guildConfigId: followedOwner.guildConfigId,
+            owner: followedOwner.login,
+          },
+          select: { name: true },
+        });
+        const existingNames = new Set(existing.map((repo) => repo.name));
+        const added = matchingNames.filter((name) => !existingNames.has(name));
 
-          // Store the data
-          repoDataMap.set(repoFullName, { contributors, stargazers });
-        } catch (error) {
-          logError(
-            guildLog,
-            `Error fetching data for repo ${repo.owner}/${repo.name}`,
-            error,
-          );
+        if (added.length > 0) {
+          await prisma.followedRepository.createMany({
+            data: added.map((name) => ({
+              owner: followedOwner.login,
+              name,
+              guildConfigId: followedOwner.guildConfigId,
+              followedOwnerId: followedOwner.id,
+            })),
+          });
         }
-      }
 
-      // Process each linked user
-      for (const user of linkedUsers) {
-        try {
-          // Skip if GitHub or Discord account is null
-          if (!user.discordAccount || !user.gitHubAccount) {
-            continue;
-          }
+        ownerLog.info(
+          {
+            matched: matchingNames.length,
+            added: added.length,
+            removed: removed.count,
+            kept: kept.count,
+          },
+          'Resolved followed owner repositories',
+        );
+      } catch (error) {
+        logError(ownerLog, 'Failed to resolve followed owner', error);
+      }
+    }
+  }
 
-          // Try to get the guild member
-          const member = await guild.members
-            .fetch(user.discordAccount.discordId)
-            .catch(() => null);
+  /**
+   * Sync GitHub roles for a single Discord user in every configured guild
+   * they are a member of. Repository data cached by the scheduled sync is
+   * reused where available, so this is cheap enough to run right after a user
+   * links their accounts. Pass `guildIds` to only sync some of the guilds, and
+   * `preferCache: false` to fetch the GitHub data of those guilds again.
+   */
+  public async syncUser(
+    discordId: string,
+    {
+      guildIds,
+      preferCache = true,
+    }: { guildIds?: string[]; preferCache?: boolean } = {},
+  ): Promise<UserSyncResult[]> {
+    const userLog = log.child({ discordId });
 
-          if (!member) continue; // User not in this guild
+    const githubUsername = await this.getLinkedGitHubUsername(discordId);
+    if (!githubUsername) {
+      userLog.debug('User has no linked GitHub account, skipping user sync');
+      return [];
+    }
 
-          totalProcessed++;
+    userLog.info({ githubUsername }, 'Starting user sync');
 
-          // Process contributor role
-          if (guildConfig.contributorRoleId) {
-            const { added, removed } = await this.processContributorRole(
-              member,
-              user.gitHubAccount.username,
-              guildConfig,
-              repoDataMap,
-            );
+    const guildConfigs = await this.loadConfiguredGuilds(
+      guildIds ? { guildId: { in: guildIds } } : {},
+    );
+    const results: UserSyncResult[] = [];
 
-            rolesAdded += added;
-            rolesRemoved += removed;
-          }
+    for (const guildConfig of guildConfigs) {
+      const guildLog = this.createGuildLogger(guildConfig).child({
+        discordId,
+      });
 
-          // Process stargazer role
-          if (guildConfig.stargazerRoleId) {
-            const { added, removed } = await this.processStargazerRole(
-              member,
-              user.gitHubAccount.username,
-              guildConfig,
-              repoDataMap,
-            );
-
-            rolesAdded += added;
-            rolesRemoved += removed;
-          }
-        } catch (error) {
-          logError(guildLog, `Error processing user ${user.id}`, error);
+      try {
+        // Skip guilds the bot or the user is not in
+        if (!this.discordClient.guilds.cache.has(guildConfig.guildId)) {
+          continue;
         }
+
+        const guild = await this.getManageableGuild(guildConfig);
+        const member = await guild.members.fetch(discordId).catch(() => null);
+        if (!member) continue;
+
+        results.push(
+          await this.syncSingleMember(
+            guildConfig,
+            member,
+            githubUsername,
+            guildLog,
+            { preferCache },
+          ),
+        );
+      } catch (error) {
+        logError(guildLog, 'Error during user sync', error);
       }
+    }
 
-      // Update sync history as successful
-      await prisma.guildSyncHistory.update({
-        where: { id: syncHistory.id },
-        data: {
-          completedAt: new Date(),
-          success: true,
-          totalProcessed,
-          rolesAdded,
-          rolesRemoved,
-        },
-      });
+    userLog.info({ guildCount: results.length }, 'User sync completed');
 
-      guildLog.info(
-        {
-          totalProcessed,
-          rolesAdded,
-          rolesRemoved,
-        },
-        'Guild sync completed successfully',
-      );
-    } catch (error) {
-      logError(guildLog, 'Error during guild sync', error);
+    return results;
+  }
 
-      // Update sync history with error
-      await prisma.guildSyncHistory.update({
-        where: { id: syncHistory.id },
-        data: {
-          completedAt: new Date(),
-          success: false,
-          errorMessage: error instanceof Error ? error.message : String(error),
-          totalProcessed,
-          rolesAdded,
-          rolesRemoved,
+  /**
+   * Sync GitHub roles for the Discord user linked to a GitHub login, e.g.
+   * when a webhook reports activity of that login. Returns no results if
+   * nobody linked the login. Takes the same options as `syncUser`.
+   */
+  public async syncGitHubUser(
+    githubUsername: string,
+    options: { guildIds?: string[]; preferCache?: boolean } = {},
+  ): Promise<UserSyncResult[]> {
+    const gitHubAccounts = await prisma.gitHubAccount.findMany({
+      where: { username: githubUsername },
+      include: {
+        user: {
+          include: { discordAccount: true },
         },
-      });
+      },
+    });
+
+    const results: UserSyncResult[] = [];
+    for (const gitHubAccount of gitHubAccounts) {
+      const discordId = gitHubAccount.user.discordAccount?.discordId;
+      if (!discordId) continue;
+
+      results.push(...(await this.syncUser(discordId, options)));
     }
+
+    return results;
   }
 
   /**
-   * Process contributor role for a user
+   * Apply a star or unstar of a repository to its cached stargazers, so the
+   * next sync sees it without fetching every stargazer again. Pass null as
+   * `starredAt` for an unstar.
    */
-  private async processContributorRole(
-    member: GuildMember,
+  public recordStar(
+    repoFullName: string,
     githubUsername: string,
-    guildConfig: GuildConfig & { repositories: FollowedRepository[] },
-    repoDataMap: Map<string, { contributors: string[]; stargazers: string[] }>,
-  ): Promise<{ added: number; removed: number }> {
-    let added = 0;
-    let removed = 0;
+    starredAt: Date | null,
+  ) {
+    const stargazers = this.repoDataCache.get(repoFullName)?.data.stargazers;
+    if (!stargazers) return;
 
-    // Early return if no contributor role is configured
-    if (!guildConfig.contributorRoleId) {
-      return { added, removed };
+    const login = githubUsername.toLowerCase();
+    if (!starredAt) {
+      stargazers.delete(login);
+      this.stargazerRanks.delete(stargazers);
+    } else if (!stargazers.has(login)) {
+      // A new star is the latest one, which keeps the map ordered by star date
+      stargazers.set(login, starredAt);
+      this.stargazerRanks.delete(stargazers);
     }
+  }
 
-    // Normalize GitHub username to lowercase for comparisons
-    const normalizedUsername = githubUsername.toLowerCase();
+  /**
+   * Drop cached data of a repository so the next sync fetches it again
+   */
+  public invalidateRepoData(repoFullName: string, kinds: RepoDataKind[]) {
+    const entry = this.repoDataCache.get(repoFullName);
+    if (!entry) return;
 
-    // Detect if user is a contributor to any followed repository
-    const isContributor = guildConfig.repositories.some((repo) => {
-      const repoData = repoDataMap.get(`${repo.owner}/${repo.name}`);
-      return repoData?.contributors?.includes(normalizedUsername);
+    for (const kind of kinds) {
+      entry.data[kind] = undefined;
+      entry.fetchedAt[kind] = undefined;
+    }
+  }
+
+  /**
+   * Drop cached members of an organization and of its teams
+   */
+  public invalidateOrganizationData(org: string) {
+    const login = org.toLowerCase();
+
+    Array.from(this.githubDataCache.keys()).forEach((key) => {
+      if (key === `org:${login}` || key.startsWith(`team:${login}/`)) {
+        this.githubDataCache.delete(key);
+      }
     });
+  }
 
-    // Get the role
-    const contributorRole = member.guild.roles.cache.get(
-      guildConfig.contributorRoleId,
-    );
-    if (!contributorRole) return { added, removed };
+  /**
+   * Sync GitHub roles for a single guild member, e.g. right after they join.
+   * Returns null if the member has no linked GitHub account or the guild has
+   * nothing configured.
+   */
+  public async syncMember(member: GuildMember): Promise<UserSyncResult | null> {
+    const githubUsername = await this.getLinkedGitHubUsername(member.id);
+    if (!githubUsername) return null;
+
+    const [guildConfig] = await this.loadConfiguredGuilds({
+      guildId: member.guild.id,
+    });
+    if (!guildConfig) return null;
+
+    const guildLog = this.createGuildLogger(guildConfig).child({
+      discordId: member.id,
+    });
+
+    // Make sure we are allowed to manage roles before planning anything
+    await this.getManageableGuild(guildConfig);
+
+    return this.syncSingleMember(guildConfig, member, githubUsername, guildLog);
+  }
 
-    const hasRole = member.roles.cache.has(contributorRole.id);
+  /**
+   * Remove every role the bot manages from a Discord user in all configured
+   * guilds, e.g. before their linked accounts are deleted
+   */
+  public async revokeUserRoles(discordId: string): Promise<UserSyncResult[]> {
+    const userLog = log.child({ discordId });
+    userLog.info('Revoking managed roles from user');
+
+    // Include guilds without repositories, roles granted earlier still count
+    const guildConfigs = await prisma.guildConfig.findMany({
+      include: syncGuildConfigInclude,
+    });
+    const results: UserSyncResult[] = [];
+
+    for (const guildConfig of guildConfigs) {
+      const guildLog = this.createGuildLogger(guildConfig).child({
+        discordId,
+      });
 
-    // Add role if needed
-    if (isContributor && !hasRole) {
       try {
-        await member.roles.add(contributorRole, 'GitHub contributor role sync');
-        added = 1;
-      } catch (error) {
-        logError(
-          log,
-          `Failed to add contributor role to ${member.user.tag}`,
-          error,
+        // Skip guilds the bot or the user is not in
+        if (!this.discordClient.guilds.cache.has(guildConfig.guildId)) {
+          continue;
+        }
+
+        const guild = await this.getManageableGuild(guildConfig);
+        const member = await guild.members.fetch(discordId).catch(() => null);
+        if (!member) continue;
+
+        const grantedRoles = await this.loadGrantedRoles(guildConfig, [
+          discordId,
+        ]);
+
+        const changes: RoleChange[] = [];
+        for (const roleId of this.getManagedRoleIds(guildConfig)) {
+          const role = guild.roles.cache.get(roleId);
+          if (!role || !member.roles.cache.has(role.id)) continue;
+
+          // Leave manually assigned roles alone when configured to
+          if (
+            guildConfig.removeOnlyGrantedRoles &&
+            !grantedRoles.get(discordId)?.has(role.id)
+          ) {
+            continue;
+          }
+
+          changes.push({
+            roleId: role.id,
+            roleName: role.name,
+            action: 'remove',
+            reason: 'Linked accounts were removed',
+          });
+        }
+
+        const applied = await this.applyRoleChanges(
+          guildConfig,
+          member,
+          changes,
         );
-      }
-    }
-    // Remove role if needed
-    else if (!isContributor && hasRole) {
-      try {
-        await member.roles.remove(
-          contributorRole,
-          'GitHub contributor role sync',
+
+        // Nothing is left to remove once the accounts are gone
+        await prisma.pendingRoleRemoval.deleteMany({
+          where: { guildConfigId: guildConfig.id, discordId },
+        });
+
+        guildLog.info(
+          { removedRoles: applied.map((change) => change.roleName) },
+          'Revoked managed roles from member',
         );
-        removed = 1;
+
+        results.push({
+          guildId: guild.id,
+          guildName: guild.name,
+          added: [],
+          removed: applied.map((change) => change.roleName),
+        });
       } catch (error) {
-        logError(
-          log,
-          `Failed to remove contributor role from ${member.user.tag}`,
-          error,
-        );
+        logError(guildLog, 'Error revoking roles from member', error);
       }
     }
 
-    return { added, removed };
+    return results;
   }
 
   /**
-   * Process stargazer role for a user
+   * Record every managed role currently held by a linked member of the guild
+   * as granted by the bot. This is a one-time migration for roles handed out
+   * before the grant ledger existed. Returns the number of adopted roles.
    */
-  private async processStargazerRole(
-    member: GuildMember,
-    githubUsername: string,
-    guildConfig: GuildConfig & { repositories: FollowedRepository[] },
-    repoDataMap: Map<string, { contributors: string[]; stargazers: string[] }>,
-  ): Promise<{ added: number; removed: number }> {
-    let added = 0;
-    let removed = 0;
+  public async adoptExistingRoles(guildId: string): Promise<number> {
+    const guildConfig = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: syncGuildConfigInclude,
+    });
 
-    // Early return if no stargazer role is configured
-    if (!guildConfig.stargazerRoleId) {
-      return { added, removed };
+    if (!guildConfig) {
+      throw new Error(`No configuration found for guild: ${guildId}`);
     }
 
-    // Normalize GitHub username to lowercase for comparisons
-    const normalizedUsername = githubUsername.toLowerCase();
+    const guildLog = this.createGuildLogger(guildConfig);
+    const guild = await this.getManageableGuild(guildConfig);
+    const linkedAccounts = await this.loadLinkedAccounts();
+    const members = await this.fetchLinkedMembers(
+      guild,
+      linkedAccounts,
+      guildLog,
+    );
+    const managedRoleIds = this.getManagedRoleIds(guildConfig);
 
-    // Detect if user is a stargazer of any followed repository
-    const isStargazer = guildConfig.repositories.some((repo) => {
-      const repoData = repoDataMap.get(`${repo.owner}/${repo.name}`);
-      return repoData?.stargazers?.includes(normalizedUsername);
-    });
+    let adopted = 0;
+    for (const member of members) {
+      for (const roleId of managedRoleIds) {
+        if (!member.roles.cache.has(roleId)) continue;
 
-    // Get the role
-    const stargazerRole = member.guild.roles.cache.get(
-      guildConfig.stargazerRoleId,
-    );
-    if (!stargazerRole) return { added, removed };
+        await prisma.roleGrant.upsert({
+          where: {
+            guildConfigId_discordId_roleId: {
+              guildConfigId: guildConfig.id,
+              discordId: member.id,
+              roleId,
+            },
+          },
+          update: {},
+          create: {
+            guildConfigId: guildConfig.id,
+            discordId: member.id,
+            roleId,
+            reason: 'Adopted existing role',
+          },
+        });
+        adopted++;
+      }
+    }
 
-    const hasRole = member.roles.cache.has(stargazerRole.id);
+    guildLog.info({ adopted }, 'Adopted existing role holders into ledger');
 
-    // Add role if needed
-    if (isStargazer && !hasRole) {
-      try {
-        await member.roles.add(stargazerRole, 'GitHub stargazer role sync');
-        added = 1;
-      } catch (error) {
-        logError(
-          log,
-          `Failed to add stargazer role to ${member.user.tag}`,
-          error,
+    return adopted;
+  }
+
+  /**
+   * Plan and apply the roles of one member using cached repository data where
+   * possible, unless `preferCache` is false
+   */
+  private async syncSingleMember(
+    guildConfig: SyncGuildConfig,
+    member: GuildMember,
+    githubUsername: string,
+    guildLog: pino.Logger,
+    { preferCache = true }: { preferCache?: boolean } = {},
+  ): Promise<UserSyncResult> {
+    const state = await this.loadGuildSyncState(guildConfig, guildLog, {
+      preferCache,
+      discordIds: [member.id],
+    });
+    const plan = this.planMemberRoleChanges(
+      member,
+      githubUsername,
+      guildConfig,
+      state,
+    );
+    const applied = await this.applyMemberPlan(
+      guildConfig,
+      member,
+      plan,
+      state,
+    );
+
+    guildLog.info(
+      { githubUsername, appliedChanges: applied.length },
+      'Member sync completed',
+    );
+
+    return {
+      guildId: member.guild.id,
+      guildName: member.guild.name,
+      added: applied
+        .filter((change) => change.action === 'add')
+        .map((change) => change.roleName),
+      removed: applied
+        .filter((change) => change.action === 'remove')
+        .map((change) => change.roleName),
+    };
+  }
+
+  private async getLinkedGitHubUsername(discordId: string) {
+    const discordAccount = await prisma.discordAccount.findUnique({
+      where: { discordId },
+      include: {
+        user: {
+          include: { gitHubAccount: true },
+        },
+      },
+    });
+
+    return discordAccount?.user.gitHubAccount?.username ?? null;
+  }
+
+  /**
+   * Compute the role changes a sync of the given guild would make, without
+   * touching any member roles
+   */
+  public async previewGuild(guildId: string): Promise<SyncPreviewEntry[]> {
+    const guildConfig = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: syncGuildConfigInclude,
+    });
+
+    if (!guildConfig) {
+      throw new Error(`No configuration found for guild: ${guildId}`);
+    }
+
+    const guildLog = this.createGuildLogger(guildConfig);
+    guildLog.info('Starting guild sync preview');
+
+    const linkedAccounts = await this.loadLinkedAccounts();
+    const { plans, timings } = await this.planGuild(
+      guildConfig,
+      linkedAccounts,
+      guildLog,
+    );
+
+    guildLog.info(
+      {
+        totalProcessed: plans.length,
+        plannedChanges: plans.reduce(
+          (count, plan) => count + plan.changes.length,
+          0,
+        ),
+        deferredRemovals: plans.reduce(
+          (count, plan) => count + plan.deferredRemovals.length,
+          0,
+        ),
+        skippedRemovals: plans.reduce(
+          (count, plan) => count + plan.skippedRemovals.length,
+          0,
+        ),
+        timings,
+      },
+      'Guild sync preview completed',
+    );
+
+    return plans.map((plan) => ({
+      discordId: plan.member.id,
+      discordTag: plan.member.user.tag,
+      githubUsername: plan.githubUsername,
+      changes: plan.changes,
+      deferredRemovals: plan.deferredRemovals,
+      skippedRemovals: plan.skippedRemovals,
+    }));
+  }
+
+  /**
+   * Evaluate a rule expression against the GitHub account linked to a Discord
+   * user and explain which clauses they satisfy. Returns null if the user has
+   * no linked GitHub account.
+   */
+  public async explainRoleRule(
+    guildId: string,
+    expression: RuleExpression,
+    discordId: string,
+  ): Promise<RuleTestResult | null> {
+    const githubUsername = await this.getLinkedGitHubUsername(discordId);
+    if (!githubUsername) return null;
+
+    const guildConfig = await prisma.guildConfig.findUnique({
+      where: { guildId },
+      include: syncGuildConfigInclude,
+    });
+
+    if (!guildConfig) {
+      throw new Error(`No configuration found for guild: ${guildId}`);
+    }
+
+    const guildLog = this.createGuildLogger(guildConfig).child({ discordId });
+    const { repoDataMap } = await this.fetchRepoData(guildConfig, guildLog, {
+      preferCache: true,
+      ruleExpressions: [expression],
+    });
+
+    const normalizedUsername = githubUsername.toLowerCase();
+    return {
+      githubUsername,
+      evaluation: evaluateRule(
+        expression,
+        this.getRuleFacts(normalizedUsername, guildConfig, repoDataMap),
+      ),
+    };
+  }
+
+  /**
+   * Sync GitHub roles for a specific guild
+   */
+  private async syncGuild(
+    guildConfig: SyncGuildConfig,
+    linkedAccounts: Map<string, string>,
+    snapshot?: RepoDataSnapshot,
+  ) {
+    const guildLog = this.createGuildLogger(guildConfig);
+
+    guildLog.info('Starting guild sync');
+
+    // Create sync history record
+    const syncHistory = await prisma.guildSyncHistory.create({
+      data: {
+        guildConfigId: guildConfig.id,
+        startedAt: new Date(),
+      },
+    });
+
+    let totalProcessed = 0;
+    let rolesAdded = 0;
+    let rolesRemoved = 0;
+
+    try {
+      const { plans, state, timings } = await this.planGuild(
+        guildConfig,
+        linkedAccounts,
+        guildLog,
+        snapshot,
+      );
+      totalProcessed = plans.length;
+
+      // Apply the planned changes, one member edit per member
+      const applyStart = Date.now();
+      for (const plan of plans) {
+        const applied = await this.applyMemberPlan(
+          guildConfig,
+          plan.member,
+          plan,
+          state,
+          syncHistory.id,
         );
+
+        rolesAdded += applied.filter(
+          (change) => change.action === 'add',
+        ).length;
+        rolesRemoved += applied.filter(
+          (change) => change.action === 'remove',
+        ).length;
+      }
+      timings.applyMs = Date.now() - applyStart;
+
+      // Runs with missing GitHub data only applied part of the changes
+      const failedRepos = Array.from(state.failedRepoData.keys());
+      const status = state.incompleteRoleIds.size > 0 ? 'partial' : 'success';
+
+      // Update sync history as successful
+      await prisma.guildSyncHistory.update({
+        where: { id: syncHistory.id },
+        data: {
+          completedAt: new Date(),
+          success: true,
+          status,
+          failedRepos: failedRepos.join(','),
+          totalProcessed,
+          rolesAdded,
+          rolesRemoved,
+        },
+      });
+
+      guildLog.info(
+        {
+          status,
+          failedRepos,
+          totalProcessed,
+          rolesAdded,
+          rolesRemoved,
+          timings,
+        },
+        'Guild sync completed successfully',
+      );
+    } catch (error) {
+      logError(guildLog, 'Error during guild sync', error);
+
+      // Update sync history with error
+      await prisma.guildSyncHistory.update({
+        where: { id: syncHistory.id },
+        data: {
+          completedAt: new Date(),
+          success: false,
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error),
+          totalProcessed,
+          rolesAdded,
+          rolesRemoved,
+        },
+      });
+    }
+  }
+
+  private createGuildLogger(guildConfig: SyncGuildConfig) {
+    return log.child({
+      guildId: guildConfig.guildId,
+      contributorRoleId: guildConfig.contributorRoleId,
+      stargazerRoleId: guildConfig.stargazerRoleId,
+      forkerRoleId: guildConfig.forkerRoleId,
+      watcherRoleId: guildConfig.watcherRoleId,
+      pullRequestAuthorRoleId: guildConfig.pullRequestAuthorRoleId,
+      mergedPullRequestRoleId: guildConfig.mergedPullRequestRoleId,
+      issueAuthorRoleId: guildConfig.issueAuthorRoleId,
+      reviewerRoleId: guildConfig.reviewerRoleId,
+      maintainerRoleId: guildConfig.maintainerRoleId,
+      activeContributorRoleId: guildConfig.activeContributorRoleId,
+      repositoryCount: guildConfig.repositories.length,
+      roleMappingCount: guildConfig.roleMappings.length,
+      contributorTierCount: guildConfig.contributorTiers.length,
+      earlyStargazerRuleCount: guildConfig.earlyStargazerRules.length,
+      organizationCount: guildConfig.organizations.length,
+      teamRoleMappingCount: guildConfig.teamRoleMappings.length,
+      sponsorRoleMappingCount: guildConfig.sponsorRoleMappings.length,
+      roleRuleCount: guildConfig.roleRules.length,
+    });
+  }
+
+  /**
+   * Whether a repository of a followed owner passes the owner's filters
+   */
+  private matchesOwnerFilters(
+    followedOwner: FollowedOwner,
+    repo: OwnerRepository,
+  ) {
+    if (repo.archived && !followedOwner.includeArchived) return false;
+    if (repo.fork && !followedOwner.includeForks) return false;
+    if (followedOwner.topic && !repo.topics.includes(followedOwner.topic)) {
+      return false;
+    }
+    if (
+      followedOwner.includePattern &&
+      !this.matchesGlobs(repo.name, followedOwner.includePattern)
+    ) {
+      return false;
+    }
+    if (
+      followedOwner.excludePattern &&
+      this.matchesGlobs(repo.name, followedOwner.excludePattern)
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Match a name against comma-separated globs, where `*` matches any run of
+   * characters and `?` a single character
+   */
+  private matchesGlobs(name: string, patterns: string) {
+    return patterns
+      .split(',')
+      .map((pattern) => pattern.trim().toLowerCase())
+      .filter((pattern) => pattern.length > 0)
+      .some((pattern) => {
+        const source = pattern
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '.*')
+          .replace(/\?/g, '.');
+        return new RegExp(`^${source}$`).test(name);
+      });
+  }
+
+  /**
+   * Load every guild that has at least one role and repository, or an
+   * organization, team or sponsor role, configured
+   */
+  private async loadConfiguredGuilds(
+    where: Prisma.GuildConfigWhereInput = {},
+  ): Promise<SyncGuildConfig[]> {
+    return prisma.guildConfig.findMany({
+      where: {
+        ...where,
+        OR: [
+          {
+            OR: [
+              { contributorRoleId: { not: null } },
+              { stargazerRoleId: { not: null } },
+              { forkerRoleId: { not: null } },
+              { watcherRoleId: { not: null } },
+              { pullRequestAuthorRoleId: { not: null } },
+              { mergedPullRequestRoleId: { not: null } },
+              { issueAuthorRoleId: { not: null } },
+              { reviewerRoleId: { not: null } },
+              { maintainerRoleId: { not: null } },
+              { activeContributorRoleId: { not: null } },
+              { roleMappings: { some: {} } },
+              { contributorTiers: { some: {} } },
+              { earlyStargazerRules: { some: {} } },
+              { roleRules: { some: {} } },
+            ],
+            repositories: {
+              some: {},
+            },
+          },
+          { organizations: { some: {} } },
+          { teamRoleMappings: { some: {} } },
+          { sponsorRoleMappings: { some: {} } },
+        ],
+      },
+      include: syncGuildConfigInclude,
+    });
+  }
+
+  /**
+   * Get the Discord guild for a config, making sure the bot can manage roles
+   * in it
+   */
+  private async getManageableGuild(guildConfig: SyncGuildConfig) {
+    // Get guild from Discord
+    const guild = this.discordClient.guilds.cache.get(guildConfig.guildId);
+    if (!guild) {
+      throw new Error(`Guild not found in Discord: ${guildConfig.guildId}`);
+    }
+
+    // Make sure we have permission to manage roles
+    const botMember = await guild.members.fetchMe();
+    if (!botMember.permissions.has('ManageRoles')) {
+      throw new Error('Bot does not have "Manage Roles" permission');
+    }
+
+    return guild;
+  }
+
+  /**
+   * Every role the bot assigns in a guild, regardless of which source
+   * configures it
+   */
+  private getManagedRoleIds(guildConfig: SyncGuildConfig): string[] {
+    const roleIds = new Set<string>();
+
+    if (guildConfig.contributorRoleId) {
+      roleIds.add(guildConfig.contributorRoleId);
+    }
+    if (guildConfig.stargazerRoleId) {
+      roleIds.add(guildConfig.stargazerRoleId);
+    }
+    if (guildConfig.forkerRoleId) {
+      roleIds.add(guildConfig.forkerRoleId);
+    }
+    if (guildConfig.watcherRoleId) {
+      roleIds.add(guildConfig.watcherRoleId);
+    }
+    if (guildConfig.pullRequestAuthorRoleId) {
+      roleIds.add(guildConfig.pullRequestAuthorRoleId);
+    }
+    if (guildConfig.mergedPullRequestRoleId) {
+      roleIds.add(guildConfig.mergedPullRequestRoleId);
+    }
+    if (guildConfig.issueAuthorRoleId) {
+      roleIds.add(guildConfig.issueAuthorRoleId);
+    }
+    if (guildConfig.reviewerRoleId) {
+      roleIds.add(guildConfig.reviewerRoleId);
+    }
+    if (guildConfig.maintainerRoleId) {
+      roleIds.add(guildConfig.maintainerRoleId);
+    }
+    if (guildConfig.activeContributorRoleId) {
+      roleIds.add(guildConfig.activeContributorRoleId);
+    }
+    for (const mapping of guildConfig.roleMappings) {
+      roleIds.add(mapping.roleId);
+    }
+    for (const tier of guildConfig.contributorTiers) {
+      roleIds.add(tier.roleId);
+    }
+    for (const rule of guildConfig.earlyStargazerRules) {
+      roleIds.add(rule.roleId);
+    }
+    for (const organization of guildConfig.organizations) {
+      roleIds.add(organization.roleId);
+    }
+    for (const mapping of guildConfig.teamRoleMappings) {
+      roleIds.add(mapping.roleId);
+    }
+    for (const mapping of guildConfig.sponsorRoleMappings) {
+      roleIds.add(mapping.roleId);
+    }
+    for (const rule of guildConfig.roleRules) {
+      roleIds.add(rule.roleId);
+    }
+
+    return Array.from(roleIds);
+  }
+
+  /**
+   * Load every user with both a Discord and a GitHub account, keyed by
+   * Discord ID
+   */
+  private async loadLinkedAccounts() {
+    const linkedUsers = await prisma.user.findMany({
+      where: {
+        discordAccount: {
+          isNot: null,
+        },
+        gitHubAccount: {
+          isNot: null,
+        },
+      },
+      include: {
+        discordAccount: true,
+        gitHubAccount: true,
+      },
+    });
+
+    const linkedAccounts = new Map<string, string>();
+    for (const user of linkedUsers) {
+      // Skip if GitHub or Discord account is null
+      if (!user.discordAccount || !user.gitHubAccount) continue;
+
+      linkedAccounts.set(
+        user.discordAccount.discordId,
+        user.gitHubAccount.username,
+      );
+    }
+
+    return linkedAccounts;
+  }
+
+  /**
+   * Gather GitHub data and compute the role changes for every linked member
+   * of a guild. Repository data is taken from `snapshot` when given.
+   */
+  private async planGuild(
+    guildConfig: SyncGuildConfig,
+    linkedAccounts: Map<string, string>,
+    guildLog: pino.Logger,
+    snapshot?: RepoDataSnapshot,
+  ): Promise<GuildPlan> {
+    const timings: Record<string, number> = {};
+    const guild = await this.getManageableGuild(guildConfig);
+
+    let phaseStart = Date.now();
+    const state = await this.loadGuildSyncState(guildConfig, guildLog, {
+      snapshot,
+    });
+    timings.repoFetchMs = Date.now() - phaseStart;
+
+    if (state.incompleteRoleIds.size > 0) {
+      guildLog.warn(
+        {
+          failedRepos: Array.from(state.failedRepoData.keys()),
+          roleIds: Array.from(state.incompleteRoleIds),
+        },
+        'GitHub data is incomplete, skipping removals of affected roles',
+      );
+    }
+
+    phaseStart = Date.now();
+    const members = await this.fetchLinkedMembers(
+      guild,
+      linkedAccounts,
+      guildLog,
+    );
+    timings.memberFetchMs = Date.now() - phaseStart;
+
+    guildLog.info(
+      { linkedAccounts: linkedAccounts.size, guildMembers: members.length },
+      'Fetched linked guild members',
+    );
+
+    phaseStart = Date.now();
+    const plans: MemberRolePlan[] = [];
+
+    // Process each linked member
+    for (const member of members) {
+      try {
+        const githubUsername = linkedAccounts.get(member.id);
+        if (!githubUsername) continue;
+
+        plans.push({
+          member,
+          githubUsername,
+          ...this.planMemberRoleChanges(
+            member,
+            githubUsername,
+            guildConfig,
+            state,
+          ),
+        });
+      } catch (error) {
+        logError(guildLog, `Error processing member ${member.id}`, error);
       }
     }
-    // Remove role if needed
-    else if (!isStargazer && hasRole) {
+    timings.planMs = Date.now() - phaseStart;
+
+    return { plans, state, timings };
+  }
+
+  /**
+   * Fetch the guild members that have linked accounts. Members are requested
+   * in batches over the gateway instead of one REST call per linked user, and
+   * users that are not in the guild are simply absent from the result. Members
+   * of a batch that fails to fetch are left out as well and synced next time.
+   */
+  private async fetchLinkedMembers(
+    guild: Guild,
+    linkedAccounts: Map<string, string>,
+    guildLog: pino.Logger,
+  ): Promise<GuildMember[]> {
+    const discordIds = Array.from(linkedAccounts.keys());
+    const members: GuildMember[] = [];
+
+    // With the privileged members intent, small guilds are cheaper to fetch
+    // as a whole and intersect in memory
+    if (
+      this.discordClient.options.intents.has(GatewayIntentBits.GuildMembers) &&
+      guild.memberCount < discordIds.length
+    ) {
+      const allMembers = await guild.members.fetch();
+      allMembers.forEach((member) => {
+        if (linkedAccounts.has(member.id)) members.push(member);
+      });
+      return members;
+    }
+
+    for (let i = 0; i < discordIds.length; i += MEMBER_FETCH_BATCH_SIZE) {
+      const batch = discordIds.slice(i, i + MEMBER_FETCH_BATCH_SIZE);
       try {
-        await member.roles.remove(stargazerRole, 'GitHub stargazer role sync');
-        removed = 1;
+        const fetched = await guild.members.fetch({ user: batch });
+        fetched.forEach((member) => members.push(member));
       } catch (error) {
         logError(
-          log,
-          `Failed to remove stargazer role from ${member.user.tag}`,
+          guildLog,
+          `Error fetching member batch ${i / MEMBER_FETCH_BATCH_SIZE + 1} (${batch.length} users)`,
           error,
         );
       }
     }
 
-    return { added, removed };
+    return members;
+  }
+
+  /**
+   * Load the GitHub data, grant ledger and pending removals needed to plan the
+   * roles of a guild. `discordIds` limits the database lookups to specific
+   * members.
+   */
+  private async loadGuildSyncState(
+    guildConfig: SyncGuildConfig,
+    guildLog: pino.Logger,
+    {
+      preferCache = false,
+      discordIds,
+      snapshot,
+    }: {
+      preferCache?: boolean;
+      discordIds?: string[];
+      snapshot?: RepoDataSnapshot;
+    } = {},
+  ): Promise<GuildSyncState> {
+    const { repoDataMap, failedRepoData } = await this.fetchRepoData(
+      guildConfig,
+      guildLog,
+      { preferCache, snapshot },
+    );
+    const organizationMembers = await this.fetchOrganizationMembers(
+      guildConfig,
+      guildLog,
+      { preferCache },
+    );
+    const teamMembers = await this.fetchTeamMembers(guildConfig, guildLog, {
+      preferCache,
+    });
+    const sponsors = await this.fetchSponsors(guildConfig, guildLog, {
+      preferCache,
+    });
+
+    return {
+      repoDataMap,
+      failedRepoData,
+      organizationMembers,
+      teamMembers,
+      sponsors,
+      grantedRoles: await this.loadGrantedRoles(guildConfig, discordIds),
+      pendingRemovals: await this.loadPendingRemovals(guildConfig, discordIds),
+      incompleteRoleIds: this.getIncompleteRoleIds(guildConfig, {
+        failedRepoData,
+        organizationMembers,
+        teamMembers,
+        sponsors,
+      }),
+    };
+  }
+
+  /**
+   * Load since when members have been ineligible for roles awaiting removal,
+   * keyed by Discord ID and then role ID
+   */
+  private async loadPendingRemovals(
+    guildConfig: SyncGuildConfig,
+    discordIds?: string[],
+  ) {
+    const pendingRemovals = await prisma.pendingRoleRemoval.findMany({
+      where: {
+        guildConfigId: guildConfig.id,
+        ...(discordIds ? { discordId: { in: discordIds } } : {}),
+      },
+      select: { discordId: true, roleId: true, ineligibleSince: true },
+    });
+
+    const pendingByMember = new Map<string, Map<string, Date>>();
+    for (const pending of pendingRemovals) {
+      const roles =
+        pendingByMember.get(pending.discordId) ?? new Map<string, Date>();
+      roles.set(pending.roleId, pending.ineligibleSince);
+      pendingByMember.set(pending.discordId, roles);
+    }
+
+    return pendingByMember;
+  }
+
+  /**
+   * Load the roles the bot granted in a guild, keyed by Discord ID
+   */
+  private async loadGrantedRoles(
+    guildConfig: SyncGuildConfig,
+    discordIds?: string[],
+  ) {
+    const grants = await prisma.roleGrant.findMany({
+      where: {
+        guildConfigId: guildConfig.id,
+        ...(discordIds ? { discordId: { in: discordIds } } : {}),
+      },
+      select: { discordId: true, roleId: true },
+    });
+
+    const grantedRoles = new Map<string, Set<string>>();
+    for (const grant of grants) {
+      const roles = grantedRoles.get(grant.discordId) ?? new Set<string>();
+      roles.add(grant.roleId);
+      grantedRoles.set(grant.discordId, roles);
+    }
+
+    return grantedRoles;
+  }
+
+  /**
+   * Fetch the GitHub data needed by the roles configured for a guild. With
+   * `preferCache`, data fetched recently by another sync is reused instead.
+   * `ruleExpressions` replaces the guild's own role rules when deciding what
+   * data the rules need. Repositories in `snapshot` are taken from it instead
+   * of being fetched again.
+   */
+  private async fetchRepoData(
+    guildConfig: SyncGuildConfig,
+    guildLog: pino.Logger,
+    {
+      preferCache = false,
+      ruleExpressions,
+      snapshot,
+    }: {
+      preferCache?: boolean;
+      ruleExpressions?: RuleExpression[];
+      snapshot?: RepoDataSnapshot;
+    } = {},
+  ): Promise<RepoDataSnapshot> {
+    const repoDataMap = new Map<string, RepoData>();
+    const failedRepoData = new Map<string, Set<RepoDataKind>>();
+    const expressions =
+      ruleExpressions ??
+      this.parseRoleRules(guildConfig, guildLog).map((rule) => rule.expression);
+
+    // Process all repositories and gather data
+    for (const repo of guildConfig.repositories) {
+      const repoFullName = `${repo.owner}/${repo.name}`;
+      const kinds = this.getRepoDataKinds(guildConfig, repo, expressions);
+
+      const sharedRepoData = snapshot?.repoDataMap.get(repoFullName);
+      if (sharedRepoData) {
+        repoDataMap.set(repoFullName, sharedRepoData);
+
+        // Only failures of data this guild needs matter to it
+        const failedKinds = Array.from(
+          snapshot?.failedRepoData.get(repoFullName) ?? [],
+        ).filter((kind) => kinds.has(kind));
+        if (failedKinds.length > 0) {
+          failedRepoData.set(repoFullName, new Set(failedKinds));
+        }
+        continue;
+      }
+
+      const { repoData, failedKinds } = await this.fetchRepositoryData(
+        repo.owner,
+        repo.name,
+        kinds,
+        {
+          preferCache,
+          activeContributorDays: guildConfig.activeContributorDays,
+        },
+        guildLog,
+      );
+
+      repoDataMap.set(repoFullName, repoData);
+      if (failedKinds.size > 0) {
+        failedRepoData.set(repoFullName, failedKinds);
+      }
+    }
+
+    return { repoDataMap, failedRepoData };
+  }
+
+  /**
+   * Fetch the GitHub data of every repository followed by the given guilds.
+   * Each repository is fetched once, with the data needed by all guilds that
+   * follow it, and a few repositories are fetched at a time.
+   */
+  private async fetchSharedRepoData(
+    guildConfigs: SyncGuildConfig[],
+  ): Promise<RepoDataSnapshot> {
+    const repos = new Map<
+      string,
+      {
+        owner: string;
+        name: string;
+        kinds: Set<RepoDataKind>;
+        activeContributorDays: number;
+      }
+    >();
+
+    for (const guildConfig of guildConfigs) {
+      // Invalid rules are logged when the guild itself is synced
+      const expressions = this.parseRoleRules(guildConfig).map(
+        (rule) => rule.expression,
+      );
+
+      for (const repo of guildConfig.repositories) {
+        const repoFullName = `${repo.owner}/${repo.name}`;
+        const sharedRepo = repos.get(repoFullName) ?? {
+          owner: repo.owner,
+          name: repo.name,
+          kinds: new Set<RepoDataKind>(),
+          activeContributorDays: 0,
+        };
+
+        this.getRepoDataKinds(guildConfig, repo, expressions).forEach((kind) =>
+          sharedRepo.kinds.add(kind),
+        );
+
+        // The longest activity window covers every guild's window
+        if (guildConfig.activeContributorRoleId) {
+          sharedRepo.activeContributorDays = Math.max(
+            sharedRepo.activeContributorDays,
+            guildConfig.activeContributorDays,
+          );
+        }
+
+        repos.set(repoFullName, sharedRepo);
+      }
+    }
+
+    const snapshot: RepoDataSnapshot = {
+      repoDataMap: new Map(),
+      failedRepoData: new Map(),
+    };
+    const queue = Array.from(repos.entries());
+
+    const fetchNext = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const [repoFullName, repo] = next;
+        const { repoData, failedKinds } = await this.fetchRepositoryData(
+          repo.owner,
+          repo.name,
+          repo.kinds,
+          { activeContributorDays: repo.activeContributorDays },
+          log,
+        );
+
+        snapshot.repoDataMap.set(repoFullName, repoData);
+        if (failedKinds.size > 0) {
+          snapshot.failedRepoData.set(repoFullName, failedKinds);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: REPO_FETCH_CONCURRENCY }, () => fetchNext()),
+    );
+
+    log.info(
+      {
+        repositoryCount: repos.size,
+        failedCount: snapshot.failedRepoData.size,
+      },
+      'Fetched shared repository data',
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * Work out which data of a repository the roles configured for a guild need
+   */
+  private getRepoDataKinds(
+    guildConfig: SyncGuildConfig,
+    repo: SyncGuildConfig['repositories'][number],
+    expressions: RuleExpression[],
+  ) {
+    const repoFullName = `${repo.owner}/${repo.name}`;
+    const kinds = new Set<RepoDataKind>();
+
+    // Repository specific mappings may need data the guild-wide roles don't
+    const mappingKinds = new Set(
+      guildConfig.roleMappings
+        .filter((mapping) => mapping.repositoryId === repo.id)
+        .map((mapping) => mapping.kind),
+    );
+
+    // Role rules may need contributor or stargazer data as well
+    const ruleKinds = new Set(
+      expressions.flatMap((expression) =>
+        getRuleFactKinds(expression, repoFullName),
+      ),
+    );
+
+    if (
+      guildConfig.contributorRoleId ||
+      guildConfig.contributorTiers.length > 0 ||
+      mappingKinds.has('contributor') ||
+      ruleKinds.has('contributor')
+    ) {
+      kinds.add('contributors');
+    }
+
+    if (
+      guildConfig.stargazerRoleId ||
+      mappingKinds.has('stargazer') ||
+      ruleKinds.has('stargazer') ||
+      guildConfig.earlyStargazerRules.some(
+        (rule) => rule.repositoryId === repo.id,
+      )
+    ) {
+      kinds.add('stargazers');
+    }
+
+    if (guildConfig.forkerRoleId) kinds.add('forkOwners');
+    if (guildConfig.watcherRoleId) kinds.add('watchers');
+    if (
+      guildConfig.pullRequestAuthorRoleId ||
+      guildConfig.mergedPullRequestRoleId
+    ) {
+      kinds.add('pullRequests');
+    }
+    if (guildConfig.issueAuthorRoleId) kinds.add('issueAuthors');
+    if (guildConfig.reviewerRoleId) kinds.add('reviewers');
+    if (guildConfig.maintainerRoleId) kinds.add('collaborators');
+    if (guildConfig.activeContributorRoleId) kinds.add('recentCommitAuthors');
+
+    return kinds;
+  }
+
+  /**
+   * Fetch the given kinds of data of a single repository. With
+   * `preferCache`, data fetched recently by another sync is reused instead.
+   * Kinds that fail to fetch are left out of the data and returned in
+   * `failedKinds`, the other kinds are still usable.
+   */
+  private async fetchRepositoryData(
+    owner: string,
+    name: string,
+    kinds: Set<RepoDataKind>,
+    {
+      preferCache = false,
+      activeContributorDays,
+    }: { preferCache?: boolean; activeContributorDays: number },
+    guildLog: pino.Logger,
+  ): Promise<{ repoData: RepoData; failedKinds: Set<RepoDataKind> }> {
+    const repoFullName = `${owner}/${name}`;
+    const repoData: RepoData = {};
+    const failedKinds = new Set<RepoDataKind>();
+
+    const fetchKind = async <K extends RepoDataKind>(
+      kind: K,
+      fetchData: () => Promise<RepoData[K]>,
+      isCacheUsable: (cached: NonNullable<RepoData[K]>) => boolean = () => true,
+    ) => {
+      if (!kinds.has(kind)) return;
+
+      try {
+        const cached = preferCache
+          ? this.getCachedRepoData(repoFullName, kind)
+          : undefined;
+
+        repoData[kind] =
+          cached && isCacheUsable(cached) ? cached : await fetchData();
+      } catch (error) {
+        failedKinds.add(kind);
+        logError(
+          guildLog,
+          `Error fetching ${kind} for repo ${repoFullName}`,
+          error,
+        );
+      }
+    };
+
+    await fetchKind('contributors', () =>
+      this.fetchContributors(owner, name, guildLog),
+    );
+    await fetchKind('stargazers', () =>
+      this.fetchStargazers(owner, name, guildLog),
+    );
+    await fetchKind('forkOwners', () =>
+      this.fetchForkOwners(owner, name, guildLog),
+    );
+    await fetchKind('watchers', () =>
+      this.fetchWatchers(owner, name, guildLog),
+    );
+    await fetchKind('pullRequests', () =>
+      this.fetchPullRequestAuthors(owner, name, guildLog),
+    );
+    await fetchKind('issueAuthors', () =>
+      this.fetchIssueAuthors(owner, name, guildLog),
+    );
+    await fetchKind('reviewers', () =>
+      this.fetchReviewers(owner, name, guildLog),
+    );
+    await fetchKind('collaborators', () =>
+      this.fetchCollaborators(owner, name, guildLog),
+    );
+
+    // Cached data fetched for a shorter activity window doesn't cover this one
+    const since = new Date(
+      Date.now() - activeContributorDays * 24 * 60 * 60 * 1000,
+    );
+    await fetchKind(
+      'recentCommitAuthors',
+      () => this.fetchRecentCommitAuthors(owner, name, since, guildLog),
+      (cached) => cached.since <= since,
+    );
+
+    return { repoData, failedKinds };
+  }
+
+  /**
+   * Get the roles that depend on GitHub data that could not be fetched. The
+   * sync can still add these roles but doesn't remove them, since members may
+   * qualify through the missing data.
+   */
+  private getIncompleteRoleIds(
+    guildConfig: SyncGuildConfig,
+    state: Pick<
+      GuildSyncState,
+      'failedRepoData' | 'organizationMembers' | 'teamMembers' | 'sponsors'
+    >,
+  ) {
+    const roleIds = new Set<string>();
+    const hasFailed = (repoFullName: string, kind: RepoDataKind) =>
+      state.failedRepoData.get(repoFullName)?.has(kind) ?? false;
+
+    // Guild-wide roles depend on the data of every followed repository
+    const failedKinds = new Set<RepoDataKind>();
+    state.failedRepoData.forEach((kinds) =>
+      kinds.forEach((kind) => failedKinds.add(kind)),
+    );
+
+    const kindRoleIds: [RepoDataKind, (string | null)[]][] = [
+      [
+        'contributors',
+        [
+          guildConfig.contributorRoleId,
+          ...guildConfig.contributorTiers.map((tier) => tier.roleId),
+        ],
+      ],
+      ['stargazers', [guildConfig.stargazerRoleId]],
+      ['forkOwners', [guildConfig.forkerRoleId]],
+      ['watchers', [guildConfig.watcherRoleId]],
+      [
+        'pullRequests',
+        [
+          guildConfig.pullRequestAuthorRoleId,
+          guildConfig.mergedPullRequestRoleId,
+        ],
+      ],
+      ['issueAuthors', [guildConfig.issueAuthorRoleId]],
+      ['reviewers', [guildConfig.reviewerRoleId]],
+      ['collaborators', [guildConfig.maintainerRoleId]],
+      ['recentCommitAuthors', [guildConfig.activeContributorRoleId]],
+    ];
+
+    for (const [kind, kindRoles] of kindRoleIds) {
+      if (!failedKinds.has(kind)) continue;
+
+      for (const roleId of kindRoles) {
+        if (roleId) roleIds.add(roleId);
+      }
+    }
+
+    for (const mapping of guildConfig.roleMappings) {
+      const repo = guildConfig.repositories.find(
+        (repository) => repository.id === mapping.repositoryId,
+      );
+      const kind = mapping.kind === 'stargazer' ? 'stargazers' : 'contributors';
+
+      if (repo && hasFailed(`${repo.owner}/${repo.name}`, kind)) {
+        roleIds.add(mapping.roleId);
+      }
+    }
+
+    for (const rule of guildConfig.earlyStargazerRules) {
+      const repoFullName = `${rule.repository.owner}/${rule.repository.name}`;
+      if (hasFailed(repoFullName, 'stargazers')) roleIds.add(rule.roleId);
+    }
+
+    // Wildcard and count clauses depend on every followed repository
+    for (const { rule, expression } of this.parseRoleRules(guildConfig)) {
+      const incomplete = guildConfig.repositories.some((repo) => {
+        const repoFullName = `${repo.owner}/${repo.name}`;
+
+        return getRuleFactKinds(expression, repoFullName).some((kind) =>
+          hasFailed(
+            repoFullName,
+            kind === 'stargazer' ? 'stargazers' : 'contributors',
+          ),
+        );
+      });
+
+      if (incomplete) roleIds.add(rule.roleId);
+    }
+
+    // Organizations, teams and sponsors that failed to fetch are left out of
+    // their maps
+    for (const organization of guildConfig.organizations) {
+      if (!state.organizationMembers.has(organization.login)) {
+        roleIds.add(organization.roleId);
+      }
+    }
+
+    for (const mapping of guildConfig.teamRoleMappings) {
+      if (!state.teamMembers.has(`${mapping.org}/${mapping.teamSlug}`)) {
+        roleIds.add(mapping.roleId);
+      }
+    }
+
+    for (const mapping of guildConfig.sponsorRoleMappings) {
+      if (!state.sponsors.has(mapping.sponsorable)) {
+        roleIds.add(mapping.roleId);
+      }
+    }
+
+    return roleIds;
+  }
+
+  /**
+   * Fetch the members of every organization followed by a guild. With
+   * `preferCache`, members fetched recently by another sync are reused.
+   */
+  private async fetchOrganizationMembers(
+    guildConfig: SyncGuildConfig,
+    guildLog: pino.Logger,
+    { preferCache = false }: { preferCache?: boolean } = {},
+  ) {
+    const organizationMembers = new Map<string, Set<string>>();
+
+    for (const organization of guildConfig.organizations) {
+      try {
+        const members = await this.fetchCached(
+          `org:${organization.login}`,
+          preferCache,
+          async () =>
+            new Set(
+              (
+                await this.githubClient.getOrganizationMembers(
+                  organization.login,
+                )
+              ).members,
+            ),
+        );
+
+        guildLog.info(
+          { org: organization.login, count: members.size },
+          'Retrieved organization members',
+        );
+
+        organizationMembers.set(organization.login, members);
+      } catch (error) {
+        logError(
+          guildLog,
+          `Error fetching members of organization ${organization.login}`,
+          error,
+        );
+      }
+    }
+
+    return organizationMembers;
+  }
+
+  /**
+   * Fetch the members of every team mapped to a role in a guild. With
+   * `preferCache`, members fetched recently by another sync are reused.
+   */
+  private async fetchTeamMembers(
+    guildConfig: SyncGuildConfig,
+    guildLog: pino.Logger,
+    { preferCache = false }: { preferCache?: boolean } = {},
+  ) {
+    const teamMembers = new Map<string, Set<string>>();
+
+    for (const mapping of guildConfig.teamRoleMappings) {
+      const teamFullName = `${mapping.org}/${mapping.teamSlug}`;
+
+      // Several roles can map to the same team
+      if (teamMembers.has(teamFullName)) continue;
+
+      try {
+        const members = await this.fetchCached(
+          `team:${teamFullName}`,
+          preferCache,
+          async () =>
+            new Set(
+              (
+                await this.githubClient.getTeamMembers(
+                  mapping.org,
+                  mapping.teamSlug,
+                )
+              ).members,
+            ),
+        );
+
+        guildLog.info(
+          { team: teamFullName, count: members.size },
+          'Retrieved team members',
+        );
+
+        teamMembers.set(teamFullName, members);
+      } catch (error) {
+        logError(
+          guildLog,
+          `Error fetching members of team ${teamFullName}`,
+          error,
+        );
+      }
+    }
+
+    return teamMembers;
+  }
+
+  /**
+   * Fetch the active sponsors of every account with sponsor roles in a guild.
+   * With `preferCache`, sponsors fetched recently by another sync are reused.
+   */
+  private async fetchSponsors(
+    guildConfig: SyncGuildConfig,
+    guildLog: pino.Logger,
+    { preferCache = false }: { preferCache?: boolean } = {},
+  ) {
+    const sponsors = new Map<string, Map<string, Sponsorship>>();
+
+    for (const mapping of guildConfig.sponsorRoleMappings) {
+      // Several tiers and roles can belong to the same account
+      if (sponsors.has(mapping.sponsorable)) continue;
+
+      try {
+        const sponsorships = await this.fetchCached(
+          `sponsors:${mapping.sponsorable}`,
+          preferCache,
+          async () => {
+            const { sponsors: sponsorList } =
+              await this.githubClient.getSponsors(mapping.sponsorable);
+
+            const byLogin = new Map<string, Sponsorship>();
+            for (const sponsorship of sponsorList) {
+              byLogin.set(sponsorship.login, sponsorship);
+            }
+            return byLogin;
+          },
+        );
+
+        guildLog.info(
+          { sponsorable: mapping.sponsorable, count: sponsorships.size },
+          'Retrieved sponsors',
+        );
+
+        sponsors.set(mapping.sponsorable, sponsorships);
+      } catch (error) {
+        logError(
+          guildLog,
+          `Error fetching sponsors of ${mapping.sponsorable}`,
+          error,
+        );
+      }
+    }
+
+    return sponsors;
+  }
+
+  /**
+   * Get GitHub data from the cache when allowed and fresh, otherwise fetch and
+   * cache it
+   */
+  private async fetchCached<T>(
+    cacheKey: string,
+    preferCache: boolean,
+    fetchValue: () => Promise<T>,
+  ): Promise<T> {
+    const cached = this.githubDataCache.get(cacheKey);
+    if (
+      preferCache &&
+      cached &&
+      Date.now() - cached.fetchedAt <= REPO_DATA_CACHE_TTL_MS
+    ) {
+      return cached.value as T;
+    }
+
+    const value = await fetchValue();
+    this.githubDataCache.set(cacheKey, { value, fetchedAt: Date.now() });
+
+    return value;
+  }
+
+  private async fetchContributors(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const { contributors: repoContributors } =
+      await this.githubClient.getRepositoryContributors(owner, name);
+
+    const contributors = new Map<string, number>();
+    for (const contributor of repoContributors || []) {
+      contributors.set(contributor.login, contributor.contributions);
+    }
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, count: contributors.size },
+      'Retrieved repository contributors',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'contributors', contributors);
+    return contributors;
+  }
+
+  private async fetchStargazers(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const { stargazers: repoStargazers } =
+      await this.githubClient.getRepositoryStargazers(owner, name);
+
+    // Order by star date so the position of a stargazer is their star rank
+    const stargazers = new Map(
+      repoStargazers
+        .sort((a, b) => a.starredAt.getTime() - b.starredAt.getTime())
+        .map((star): [string, Date] => [star.login, star.starredAt]),
+    );
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, count: stargazers.size },
+      'Retrieved repository stargazers',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'stargazers', stargazers);
+    return stargazers;
+  }
+
+  private async fetchRecentCommitAuthors(
+    owner: string,
+    name: string,
+    since: Date,
+    guildLog: pino.Logger,
+  ) {
+    const { authors } = await this.githubClient.getCommitAuthors(owner, name, {
+      since,
+    });
+
+    const recentCommitAuthors: RecentCommitAuthors = {
+      since,
+      lastCommittedAt: new Map(
+        authors.map((author): [string, Date] => [
+          author.login,
+          author.lastCommittedAt,
+        ]),
+      ),
+    };
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, since, count: authors.length },
+      'Retrieved recent commit authors',
+    );
+
+    this.cacheRepoData(
+      `${owner}/${name}`,
+      'recentCommitAuthors',
+      recentCommitAuthors,
+    );
+    return recentCommitAuthors;
+  }
+
+  private async fetchForkOwners(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const { forkOwners: repoForkOwners } =
+      await this.githubClient.getRepositoryForkOwners(owner, name);
+
+    const forkOwners = new Set(repoForkOwners);
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, count: forkOwners.size },
+      'Retrieved repository fork owners',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'forkOwners', forkOwners);
+    return forkOwners;
+  }
+
+  private async fetchWatchers(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const { watchers: repoWatchers } =
+      await this.githubClient.getRepositoryWatchers(owner, name);
+
+    const watchers = new Set(repoWatchers);
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, count: watchers.size },
+      'Retrieved repository watchers',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'watchers', watchers);
+    return watchers;
+  }
+
+  private async fetchCollaborators(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const { collaborators: repoCollaborators } =
+      await this.githubClient.getRepositoryCollaborators(owner, name);
+
+    const collaborators = new Map<string, CollaboratorPermission>();
+    for (const collaborator of repoCollaborators) {
+      collaborators.set(collaborator.login, collaborator.permission);
+    }
+
+    guildLog.info(
+      { repo: `${owner}/${name}`, count: collaborators.size },
+      'Retrieved repository collaborators',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'collaborators', collaborators);
+    return collaborators;
+  }
+
+  /**
+   * Bring the stored pull requests of a repository up to date and collect
+   * their authors. Only pull requests updated since the previous fetch are
+   * requested from GitHub, and each page is stored along with the cursor
+   * right away so the next sync continues where this one stopped.
+   */
+  private async fetchPullRequestAuthors(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const cursor = await this.getActivityCursor(
+      owner,
+      name,
+      ACTIVITY_KINDS.pullRequest,
+    );
+
+    const { pullRequests: updatedPullRequests } =
+      await this.githubClient.getPullRequests(owner, name, {
+        updatedSince: cursor,
+        maxPages: ACTIVITY_PAGES_PER_SYNC,
+        onPage: (pullRequests, updatedAt) =>
+          this.storeActivity(
+            owner,
+            name,
+            ACTIVITY_KINDS.pullRequest,
+            pullRequests,
+            updatedAt,
+          ),
+      });
+
+    const storedPullRequests = await this.loadActivity(
+      owner,
+      name,
+      ACTIVITY_KINDS.pullRequest,
+    );
+
+    const pullRequests: PullRequestAuthors = {
+      openedBy: new Set(),
+      mergedBy: new Set(),
+    };
+    for (const pull of storedPullRequests) {
+      pullRequests.openedBy.add(pull.authorLogin);
+      if (pull.mergedAt) pullRequests.mergedBy.add(pull.authorLogin);
+    }
+
+    guildLog.info(
+      {
+        repo: `${owner}/${name}`,
+        updated: updatedPullRequests.length,
+        authors: pullRequests.openedBy.size,
+      },
+      'Retrieved repository pull request authors',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'pullRequests', pullRequests);
+    return pullRequests;
+  }
+
+  /**
+   * Bring the stored issues of a repository up to date and collect their
+   * authors along with the labels of their issues. Like pull requests, each
+   * page is stored along with the cursor right away.
+   */
+  private async fetchIssueAuthors(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const cursor = await this.getActivityCursor(
+      owner,
+      name,
+      ACTIVITY_KINDS.issue,
+    );
+
+    const { issues: updatedIssues } = await this.githubClient.getIssues(
+      owner,
+      name,
+      {
+        updatedSince: cursor,
+        maxPages: ACTIVITY_PAGES_PER_SYNC,
+        onPage: (issues, updatedAt) =>
+          this.storeActivity(
+            owner,
+            name,
+            ACTIVITY_KINDS.issue,
+            issues,
+            updatedAt,
+          ),
+      },
+    );
+
+    const storedIssues = await this.loadActivity(
+      owner,
+      name,
+      ACTIVITY_KINDS.issue,
+    );
+
+    const issueAuthors = new Map<string, Set<string>>();
+    for (const issue of storedIssues) {
+      const labels = issueAuthors.get(issue.authorLogin) ?? new Set<string>();
+      for (const label of issue.labels) labels.add(label);
+      issueAuthors.set(issue.authorLogin, labels);
+    }
+
+    guildLog.info(
+      {
+        repo: `${owner}/${name}`,
+        updated: updatedIssues.length,
+        authors: issueAuthors.size,
+      },
+      'Retrieved repository issue authors',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'issueAuthors', issueAuthors);
+    return issueAuthors;
+  }
+
+  /**
+   * Bring the stored pull request reviews of a repository up to date and
+   * collect the reviewers. Reviews are only requested for pull requests
+   * updated since the previous fetch, as a new review updates its pull
+   * request. The first fetch only looks back REVIEW_BACKFILL_DAYS, and the
+   * cursor moves forward after every batch so a failed fetch resumes where
+   * it stopped.
+   */
+  private async fetchReviewers(
+    owner: string,
+    name: string,
+    guildLog: pino.Logger,
+  ) {
+    const cursor =
+      (await this.getActivityCursor(owner, name, ACTIVITY_KINDS.review)) ??
+      new Date(Date.now() - REVIEW_BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+
+    const { pullRequests: updatedPullRequests } =
+      await this.githubClient.getPullRequests(owner, name, {
+        updatedSince: cursor,
+      });
+
+    // Pull requests come oldest first, so the cursor only ever moves past
+    // pull requests whose reviews are stored
+    for (
+      let i = 0;
+      i < updatedPullRequests.length;
+      i += REVIEW_FETCH_BATCH_SIZE
+    ) {
+      const batch = updatedPullRequests.slice(i, i + REVIEW_FETCH_BATCH_SIZE);
+      const reviews: ActivityRecord[] = [];
+
+      for (const pull of batch) {
+        const { reviews: pullReviews } =
+          await this.githubClient.getPullRequestReviews(
+            owner,
+            name,
+            pull.number,
+          );
+
+        for (const review of pullReviews) {
+          // Authors commenting on their own pull request are not reviewers
+          if (review.reviewerLogin === pull.authorLogin) continue;
+
+          reviews.push({
+            number: pull.number,
+            externalId: String(review.id),
+            authorLogin: review.reviewerLogin,
+            createdAt: review.submittedAt,
+          });
+        }
+      }
+
+      await this.storeActivity(
+        owner,
+        name,
+        ACTIVITY_KINDS.review,
+        reviews,
+        batch[batch.length - 1].updatedAt,
+      );
+    }
+
+    const storedReviews = await this.loadActivity(
+      owner,
+      name,
+      ACTIVITY_KINDS.review,
+    );
+    const reviewers = new Set(
+      storedReviews.map((review) => review.authorLogin),
+    );
+
+    guildLog.info(
+      {
+        repo: `${owner}/${name}`,
+        updatedPullRequests: updatedPullRequests.length,
+        reviewers: reviewers.size,
+      },
+      'Retrieved repository reviewers',
+    );
+
+    this.cacheRepoData(`${owner}/${name}`, 'reviewers', reviewers);
+    return reviewers;
+  }
+
+  private async getActivityCursor(
+    owner: string,
+    name: string,
+    kind: ActivityKind,
+  ) {
+    const cursor = await prisma.repositorySyncCursor.findUnique({
+      where: { owner_name_kind: { owner, name, kind } },
+    });
+
+    return cursor?.cursor;
+  }
+
+  /**
+   * Upsert activity records of a repository and move the sync cursor of the
+   * activity kind forward
+   */
+  private async storeActivity(
+    owner: string,
+    name: string,
+    kind: ActivityKind,
+    records: ActivityRecord[],
+    cursor?: Date,
+  ) {
+    for (let i = 0; i < records.length; i += ACTIVITY_WRITE_BATCH_SIZE) {
+      const batch = records.slice(i, i + ACTIVITY_WRITE_BATCH_SIZE);
+      await prisma.$transaction(
+        batch.map((record) => {
+          const data = {
+            authorLogin: record.authorLogin,
+            mergedAt: record.mergedAt ?? null,
+            labels: (record.labels ?? []).join(ACTIVITY_LABEL_SEPARATOR),
+          };
+
+          const externalId = record.externalId ?? '';
+
+          return prisma.repositoryActivity.upsert({
+            where: {
+              owner_name_kind_number_externalId: {
+                owner,
+                name,
+                kind,
+                number: record.number,
+                externalId,
+              },
+            },
+            update: data,
+            create: {
+              ...data,
+              owner,
+              name,
+              kind,
+              number: record.number,
+              externalId,
+              createdAt: record.createdAt,
+            },
+          });
+        }),
+      );
+    }
+
+    if (cursor) {
+      await prisma.repositorySyncCursor.upsert({
+        where: { owner_name_kind: { owner, name, kind } },
+        update: { cursor },
+        create: { owner, name, kind, cursor },
+      });
+    }
+  }
+
+  private async loadActivity(owner: string, name: string, kind: ActivityKind) {
+    const activity = await prisma.repositoryActivity.findMany({
+      where: { owner, name, kind },
+      select: { authorLogin: true, mergedAt: true, labels: true },
+    });
+
+    return activity.map((record) => ({
+      ...record,
+      labels: record.labels
+        ? record.labels.split(ACTIVITY_LABEL_SEPARATOR)
+        : [],
+    }));
+  }
+
+  private getCachedRepoData<K extends keyof RepoData>(
+    repoFullName: string,
+    kind: K,
+  ): RepoData[K] | undefined {
+    const entry = this.repoDataCache.get(repoFullName);
+    const fetchedAt = entry?.fetchedAt[kind];
+
+    if (
+      !entry ||
+      !fetchedAt ||
+      Date.now() - fetchedAt > REPO_DATA_CACHE_TTL_MS
+    ) {
+      return undefined;
+    }
+
+    return entry.data[kind];
+  }
+
+  private cacheRepoData<K extends keyof RepoData>(
+    repoFullName: string,
+    kind: K,
+    value: RepoData[K],
+  ) {
+    const entry = this.repoDataCache.get(repoFullName) ?? {
+      data: {},
+      fetchedAt: {},
+    };
+
+    entry.data[kind] = value;
+    entry.fetchedAt[kind] = Date.now();
+    this.repoDataCache.set(repoFullName, entry);
+  }
+
+  /**
+   * Work out which roles to add and remove for a single member. Several role
+   * sources can target the same role, in which case the member keeps the role
+   * if any of them qualifies. Removals are deferred until the member has been
+   * ineligible for the guild's grace period.
+   */
+  private planMemberRoleChanges(
+    member: GuildMember,
+    githubUsername: string,
+    guildConfig: SyncGuildConfig,
+    state: GuildSyncState,
+  ): MemberRoleChanges {
+    const { repoDataMap } = state;
+
+    // Normalize GitHub username to lowercase for comparisons
+    const normalizedUsername = githubUsername.toLowerCase();
+
+    const decisions = [
+      ...this.evaluateContributorRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateStargazerRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateForkerRole(normalizedUsername, guildConfig, repoDataMap),
+      ...this.evaluateWatcherRole(normalizedUsername, guildConfig, repoDataMap),
+      ...this.evaluatePullRequestRoles(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateIssueAuthorRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateReviewerRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateMaintainerRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateActiveContributorRole(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateContributorTiers(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateEarlyStargazerRules(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateRoleRules(normalizedUsername, guildConfig, repoDataMap),
+      ...this.evaluateRepositoryRoleMappings(
+        normalizedUsername,
+        guildConfig,
+        repoDataMap,
+      ),
+      ...this.evaluateOrganizationRoles(
+        normalizedUsername,
+        guildConfig,
+        state.organizationMembers,
+      ),
+      ...this.evaluateTeamRoleMappings(
+        normalizedUsername,
+        guildConfig,
+        state.teamMembers,
+      ),
+      ...this.evaluateSponsorRoleMappings(
+        normalizedUsername,
+        guildConfig,
+        state.sponsors,
+      ),
+    ];
+
+    // Merge decisions per role, qualifying decisions win
+    const decisionsByRole = new Map<string, RoleDecision>();
+    for (const decision of decisions) {
+      const existing = decisionsByRole.get(decision.roleId);
+      if (!existing || (!existing.qualifies && decision.qualifies)) {
+        decisionsByRole.set(decision.roleId, decision);
+      }
+    }
+
+    const grantedRoles = state.grantedRoles.get(member.id);
+    const pendingRemovals = state.pendingRemovals.get(member.id);
+    const gracePeriodMs = guildConfig.removalGracePeriodHours * 60 * 60 * 1000;
+
+    const changes: RoleChange[] = [];
+    const deferredRemovals: RoleChange[] = [];
+    const skippedRemovals: RoleChange[] = [];
+    decisionsByRole.forEach((decision) => {
+      // Skip roles that no longer exist in the guild
+      const role = member.guild.roles.cache.get(decision.roleId);
+      if (!role) return;
+
+      const hasRole = member.roles.cache.has(role.id);
+
+      if (decision.qualifies && !hasRole) {
+        changes.push({
+          roleId: role.id,
+          roleName: role.name,
+          action: 'add',
+          reason: decision.reason,
+        });
+      } else if (!decision.qualifies && hasRole) {
+        // Leave manually assigned roles alone when configured to
+        if (guildConfig.removeOnlyGrantedRoles && !grantedRoles?.has(role.id)) {
+          return;
+        }
+
+        const removal: RoleChange = {
+          roleId: role.id,
+          roleName: role.name,
+          action: 'remove',
+          reason: decision.reason,
+        };
+
+        // The data that failed to fetch may be what the member qualifies
+        // through
+        if (state.incompleteRoleIds.has(role.id)) {
+          skippedRemovals.push(removal);
+          return;
+        }
+
+        // Keep the role until the member has been ineligible long enough
+        const ineligibleSince = pendingRemovals?.get(role.id);
+        if (
+          gracePeriodMs > 0 &&
+          (!ineligibleSince ||
+            Date.now() - ineligibleSince.getTime() < gracePeriodMs)
+        ) {
+          deferredRemovals.push(removal);
+          return;
+        }
+
+        changes.push(removal);
+      }
+    });
+
+    return { changes, deferredRemovals, skippedRemovals };
+  }
+
+  /**
+   * Apply a planned member update and keep the pending removals of the member
+   * up to date. Returns the changes that were actually applied.
+   */
+  private async applyMemberPlan(
+    guildConfig: SyncGuildConfig,
+    member: GuildMember,
+    plan: MemberRoleChanges,
+    state: GuildSyncState,
+    syncId?: string,
+  ): Promise<RoleChange[]> {
+    const applied =
+      plan.changes.length > 0
+        ? await this.applyRoleChanges(guildConfig, member, plan.changes, syncId)
+        : [];
+
+    const pendingRemovals = state.pendingRemovals.get(member.id);
+    if (plan.deferredRemovals.length === 0 && !pendingRemovals) {
+      return applied;
+    }
+
+    // Removals that failed stay pending so the grace period is not restarted
+    const appliedRoleIds = new Set(applied.map((change) => change.roleId));
+    const stillPendingRoleIds = plan.deferredRemovals
+      .concat(
+        plan.changes.filter(
+          (change) =>
+            change.action === 'remove' && !appliedRoleIds.has(change.roleId),
+        ),
+        plan.skippedRemovals,
+      )
+      .map((change) => change.roleId);
+
+    try {
+      // Members that qualify again, or whose role was removed, are no
+      // longer pending
+      await prisma.pendingRoleRemoval.deleteMany({
+        where: {
+          guildConfigId: guildConfig.id,
+          discordId: member.id,
+          roleId: { notIn: stillPendingRoleIds },
+        },
+      });
+
+      for (const removal of plan.deferredRemovals) {
+        if (pendingRemovals?.has(removal.roleId)) continue;
+
+        await prisma.pendingRoleRemoval.create({
+          data: {
+            guildConfigId: guildConfig.id,
+            discordId: member.id,
+            roleId: removal.roleId,
+            reason: removal.reason,
+          },
+        });
+      }
+    } catch (error) {
+      logError(log, 'Failed to update pending role removals', error, {
+        guildId: guildConfig.guildId,
+        discordId: member.id,
+      });
+    }
+
+    return applied;
+  }
+
+  /**
+   * Apply the planned role changes for a member in a single member edit and
+   * record them in the grant ledger. Returns the changes that were actually
+   * applied.
+   */
+  private async applyRoleChanges(
+    guildConfig: SyncGuildConfig,
+    member: GuildMember,
+    changes: RoleChange[],
+    syncId?: string,
+  ): Promise<RoleChange[]> {
+    // Roles above the bot's highest role can't be assigned, and including
+    // them would make the whole edit fail
+    const applicableChanges = changes.filter((change) => {
+      const role = member.guild.roles.cache.get(change.roleId);
+      if (role?.editable) return true;
+
+      log.warn(
+        { guildId: member.guild.id, roleId: change.roleId },
+        `Role ${change.roleName} is not manageable by the bot, skipping`,
+      );
+      return false;
+    });
+
+    if (applicableChanges.length === 0) {
+      return [];
+    }
+
+    const roleIds = new Set(member.roles.cache.keys());
+    for (const change of applicableChanges) {
+      if (change.action === 'add') {
+        roleIds.add(change.roleId);
+      } else {
+        roleIds.delete(change.roleId);
+      }
+    }
+
+    const auditReason = `GitHub role sync: ${applicableChanges
+      .map(
+        (change) =>
+          `${change.action === 'add' ? '+' : '-'}${change.roleName} (${change.reason})`,
+      )
+      .join('; ')}`.slice(0, AUDIT_LOG_REASON_MAX_LENGTH);
+
+    try {
+      await member.roles.set(Array.from(roleIds), auditReason);
+    } catch (error) {
+      logError(log, `Failed to update roles of ${member.user.tag}`, error, {
+        changes: applicableChanges,
+      });
+      return [];
+    }
+
+    await this.recordRoleGrants(
+      guildConfig,
+      member.id,
+      applicableChanges,
+      syncId,
+    );
+
+    return applicableChanges;
+  }
+
+  /**
+   * Keep the grant ledger in line with the role changes the bot made
+   */
+  private async recordRoleGrants(
+    guildConfig: SyncGuildConfig,
+    discordId: string,
+    changes: RoleChange[],
+    syncId?: string,
+  ) {
+    try {
+      for (const change of changes) {
+        if (change.action === 'add') {
+          await prisma.roleGrant.upsert({
+            where: {
+              guildConfigId_discordId_roleId: {
+                guildConfigId: guildConfig.id,
+                discordId,
+                roleId: change.roleId,
+              },
+            },
+            update: {
+              grantedAt: new Date(),
+              reason: change.reason,
+              syncId: syncId ?? null,
+            },
+            create: {
+              guildConfigId: guildConfig.id,
+              discordId,
+              roleId: change.roleId,
+              reason: change.reason,
+              syncId,
+            },
+          });
+        } else {
+          await prisma.roleGrant.deleteMany({
+            where: {
+              guildConfigId: guildConfig.id,
+              discordId,
+              roleId: change.roleId,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      logError(log, 'Failed to record role grants', error, {
+        guildId: guildConfig.guildId,
+        discordId,
+      });
+    }
+  }
+
+  /**
+   * Evaluate the guild-wide contributor role for a user
+   */
+  private evaluateContributorRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no contributor role is configured
+    if (!guildConfig.contributorRoleId) {
+      return [];
+    }
+
+    // Detect which followed repositories the user contributed to
+    const contributedRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) =>
+        repoDataMap.get(repoFullName)?.contributors?.has(normalizedUsername),
+      );
+
+    return [
+      {
+        roleId: guildConfig.contributorRoleId,
+        qualifies: contributedRepos.length > 0,
+        reason:
+          contributedRepos.length > 0
+            ? `Contributor to ${contributedRepos.join(', ')}`
+            : 'Not a contributor to any followed repository',
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide stargazer role for a user
+   */
+  private evaluateStargazerRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no stargazer role is configured
+    if (!guildConfig.stargazerRoleId) {
+      return [];
+    }
+
+    // Detect which followed repositories the user starred
+    const starredRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) =>
+        repoDataMap.get(repoFullName)?.stargazers?.has(normalizedUsername),
+      );
+
+    return [
+      {
+        roleId: guildConfig.stargazerRoleId,
+        qualifies: starredRepos.length > 0,
+        reason:
+          starredRepos.length > 0
+            ? `Stargazer of ${starredRepos.join(', ')}`
+            : 'Not a stargazer of any followed repository',
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide forker role for a user
+   */
+  private evaluateForkerRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no forker role is configured
+    if (!guildConfig.forkerRoleId) {
+      return [];
+    }
+
+    // Detect which followed repositories the user forked
+    const forkedRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) =>
+        repoDataMap.get(repoFullName)?.forkOwners?.has(normalizedUsername),
+      );
+
+    return [
+      {
+        roleId: guildConfig.forkerRoleId,
+        qualifies: forkedRepos.length > 0,
+        reason:
+          forkedRepos.length > 0
+            ? `Forked ${forkedRepos.join(', ')}`
+            : 'Has not forked any followed repository',
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide watcher role for a user
+   */
+  private evaluateWatcherRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no watcher role is configured
+    if (!guildConfig.watcherRoleId) {
+      return [];
+    }
+
+    // Detect which followed repositories the user watches
+    const watchedRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) =>
+        repoDataMap.get(repoFullName)?.watchers?.has(normalizedUsername),
+      );
+
+    return [
+      {
+        roleId: guildConfig.watcherRoleId,
+        qualifies: watchedRepos.length > 0,
+        reason:
+          watchedRepos.length > 0
+            ? `Watcher of ${watchedRepos.join(', ')}`
+            : 'Not watching any followed repository',
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide pull request author and merged pull request roles
+   * for a user
+   */
+  private evaluatePullRequestRoles(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    const decisions: RoleDecision[] = [];
+    const repoFullNames = guildConfig.repositories.map(
+      (repo) => `${repo.owner}/${repo.name}`,
+    );
+
+    if (guildConfig.pullRequestAuthorRoleId) {
+      const openedIn = repoFullNames.filter((repoFullName) =>
+        repoDataMap
+          .get(repoFullName)
+          ?.pullRequests?.openedBy.has(normalizedUsername),
+      );
+
+      decisions.push({
+        roleId: guildConfig.pullRequestAuthorRoleId,
+        qualifies: openedIn.length > 0,
+        reason:
+          openedIn.length > 0
+            ? `Opened a pull request in ${openedIn.join(', ')}`
+            : 'Has not opened a pull request in any followed repository',
+      });
+    }
+
+    if (guildConfig.mergedPullRequestRoleId) {
+      const mergedIn = repoFullNames.filter((repoFullName) =>
+        repoDataMap
+          .get(repoFullName)
+          ?.pullRequests?.mergedBy.has(normalizedUsername),
+      );
+
+      decisions.push({
+        roleId: guildConfig.mergedPullRequestRoleId,
+        qualifies: mergedIn.length > 0,
+        reason:
+          mergedIn.length > 0
+            ? `Has a merged pull request in ${mergedIn.join(', ')}`
+            : 'Has no merged pull request in any followed repository',
+      });
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Evaluate the guild-wide issue author role for a user, optionally limited
+   * to issues with the configured label
+   */
+  private evaluateIssueAuthorRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no issue author role is configured
+    if (!guildConfig.issueAuthorRoleId) {
+      return [];
+    }
+
+    const label = guildConfig.issueAuthorLabel?.toLowerCase();
+    const issueDescription = label ? `an issue labeled "${label}"` : 'an issue';
+
+    // Detect which followed repositories the user opened a matching issue in
+    const openedIn = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) => {
+        const labels = repoDataMap
+          .get(repoFullName)
+          ?.issueAuthors?.get(normalizedUsername);
+        return labels !== undefined && (!label || labels.has(label));
+      });
+
+    return [
+      {
+        roleId: guildConfig.issueAuthorRoleId,
+        qualifies: openedIn.length > 0,
+        reason:
+          openedIn.length > 0
+            ? `Opened ${issueDescription} in ${openedIn.join(', ')}`
+            : `Has not opened ${issueDescription} in any followed repository`,
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide reviewer role for a user
+   */
+  private evaluateReviewerRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no reviewer role is configured
+    if (!guildConfig.reviewerRoleId) {
+      return [];
+    }
+
+    // Detect which followed repositories the user reviewed pull requests in
+    const reviewedIn = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) =>
+        repoDataMap.get(repoFullName)?.reviewers?.has(normalizedUsername),
+      );
+
+    return [
+      {
+        roleId: guildConfig.reviewerRoleId,
+        qualifies: reviewedIn.length > 0,
+        reason:
+          reviewedIn.length > 0
+            ? `Reviewed pull requests in ${reviewedIn.join(', ')}`
+            : 'Has not reviewed a pull request in any followed repository',
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide maintainer role for a user, granted for at least
+   * the configured permission level on a followed repository
+   */
+  private evaluateMaintainerRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no maintainer role is configured
+    if (!guildConfig.maintainerRoleId) {
+      return [];
+    }
+
+    const minPermission = guildConfig.maintainerMinPermission;
+    const minRank = COLLABORATOR_PERMISSIONS.indexOf(
+      minPermission as CollaboratorPermission,
+    );
+
+    // Detect which followed repositories the user has enough permission on
+    const maintainedRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) => {
+        const permission = repoDataMap
+          .get(repoFullName)
+          ?.collaborators?.get(normalizedUsername);
+        return (
+          permission !== undefined &&
+          minRank !== -1 &&
+          COLLABORATOR_PERMISSIONS.indexOf(permission) >= minRank
+        );
+      });
+
+    return [
+      {
+        roleId: guildConfig.maintainerRoleId,
+        qualifies: maintainedRepos.length > 0,
+        reason:
+          maintainedRepos.length > 0
+            ? `Has ${minPermission} or higher permission on ${maintainedRepos.join(', ')}`
+            : `Has no ${minPermission} or higher permission on any followed repository`,
+      },
+    ];
+  }
+
+  /**
+   * Evaluate the guild-wide active contributor role for a user, held only
+   * while they have committed to a followed repository within the activity
+   * window
+   */
+  private evaluateActiveContributorRole(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    // Early return if no active contributor role is configured
+    if (!guildConfig.activeContributorRoleId) {
+      return [];
+    }
+
+    const days = guildConfig.activeContributorDays;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    // Detect which followed repositories the user committed to recently
+    const activeRepos = guildConfig.repositories
+      .map((repo) => `${repo.owner}/${repo.name}`)
+      .filter((repoFullName) => {
+        const lastCommittedAt = repoDataMap
+          .get(repoFullName)
+          ?.recentCommitAuthors?.lastCommittedAt.get(normalizedUsername);
+        return lastCommittedAt !== undefined && lastCommittedAt >= since;
+      });
+
+    return [
+      {
+        roleId: guildConfig.activeContributorRoleId,
+        qualifies: activeRepos.length > 0,
+        reason:
+          activeRepos.length > 0
+            ? `Committed to ${activeRepos.join(', ')} in the last ${days} day(s)`
+            : `No commits to followed repositories in the last ${days} day(s)`,
+      },
+    ];
+  }
+
+  /**
+   * Get the star rank of each stargazer, counting from 1 for the first star.
+   * Ranks are built once per stargazer map instead of once per member.
+   */
+  private getStargazerRanks(stargazers: Map<string, Date>) {
+    let ranks = this.stargazerRanks.get(stargazers);
+    if (!ranks) {
+      ranks = new Map<string, number>();
+      let rank = 0;
+      stargazers.forEach((_starredAt, login) => {
+        rank += 1;
+        ranks?.set(login, rank);
+      });
+      this.stargazerRanks.set(stargazers, ranks);
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Evaluate early stargazer rules for a user. A rule can require a star
+   * before a date, within the first stars of the repository, or both.
+   */
+  private evaluateEarlyStargazerRules(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    return guildConfig.earlyStargazerRules.map((rule) => {
+      const repoFullName = `${rule.repository.owner}/${rule.repository.name}`;
+      const stargazers = repoDataMap.get(repoFullName)?.stargazers;
+      const starredAt = stargazers?.get(normalizedUsername);
+      const rank =
+        stargazers &&
+        this.getStargazerRanks(stargazers).get(normalizedUsername);
+
+      if (!starredAt || !rank) {
+        return {
+          roleId: rule.roleId,
+          qualifies: false,
+          reason: `Not a stargazer of ${repoFullName}`,
+        };
+      }
+
+      const qualifies =
+        (!rule.starredBefore || starredAt < rule.starredBefore) &&
+        (!rule.maxRank || rank <= rule.maxRank);
+
+      return {
+        roleId: rule.roleId,
+        qualifies,
+        reason: qualifies
+          ? `Early stargazer of ${repoFullName} (star #${rank})`
+          : `Starred ${repoFullName} too late for an early stargazer role (star #${rank})`,
+      };
+    });
+  }
+
+  /**
+   * Evaluate the role rules of a guild for a user
+   */
+  private evaluateRoleRules(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    const rules = this.parseRoleRules(guildConfig);
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const facts = this.getRuleFacts(
+      normalizedUsername,
+      guildConfig,
+      repoDataMap,
+    );
+
+    return rules.map(({ rule, expression }) => {
+      const { satisfied } = evaluateRule(expression, facts);
+
+      return {
+        roleId: rule.roleId,
+        qualifies: satisfied,
+        reason: satisfied
+          ? `Matches rule "${rule.name}"`
+          : `Does not match rule "${rule.name}"`,
+      };
+    });
+  }
+
+  /**
+   * Parse the role rules of a guild. Rules are validated when they are added,
+   * so a rule that no longer parses is skipped rather than failing the sync.
+   * Pass a logger to report skipped rules.
+   */
+  private parseRoleRules(guildConfig: SyncGuildConfig, guildLog?: pino.Logger) {
+    return guildConfig.roleRules.flatMap((rule) => {
+      try {
+        return [{ rule, expression: parseRuleExpression(rule.expression) }];
+      } catch (error) {
+        if (guildLog) {
+          logError(
+            guildLog,
+            `Skipping invalid role rule "${rule.name}"`,
+            error,
+          );
+        }
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Collect the relationship facts role rules are evaluated against
+   */
+  private getRuleFacts(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RuleFacts {
+    const facts: RuleFacts = {
+      followedRepositories: [],
+      contributions: new Map(),
+      starredRepositories: new Set(),
+    };
+
+    for (const repo of guildConfig.repositories) {
+      const repoFullName = `${repo.owner}/${repo.name}`;
+      const repoData = repoDataMap.get(repoFullName);
+      facts.followedRepositories.push(repoFullName);
+
+      const contributions = repoData?.contributors?.get(normalizedUsername);
+      if (contributions) {
+        facts.contributions.set(repoFullName, contributions);
+      }
+      if (repoData?.stargazers?.has(normalizedUsername)) {
+        facts.starredRepositories.add(repoFullName);
+      }
+    }
+
+    return facts;
+  }
+
+  /**
+   * Evaluate repository specific role mappings for a user
+   */
+  private evaluateRepositoryRoleMappings(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    return guildConfig.roleMappings.map((mapping) => {
+      const repoFullName = `${mapping.repository.owner}/${mapping.repository.name}`;
+      const repoData = repoDataMap.get(repoFullName);
+      const qualifies =
+        mapping.kind === 'contributor'
+          ? !!repoData?.contributors?.has(normalizedUsername)
+          : mapping.kind === 'stargazer'
+            ? !!repoData?.stargazers?.has(normalizedUsername)
+            : false;
+      const relationship =
+        mapping.kind === 'contributor'
+          ? `contributor to ${repoFullName}`
+          : `${mapping.kind} of ${repoFullName}`;
+
+      return {
+        roleId: mapping.roleId,
+        qualifies,
+        reason: qualifies
+          ? `Repository role for ${relationship}`
+          : `Not a ${relationship}`,
+      };
+    });
+  }
+
+  /**
+   * Evaluate contribution count tiers for a user. The user holds exactly the
+   * highest tier their total contributions across followed repositories
+   * qualify for.
+   */
+  private evaluateContributorTiers(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    repoDataMap: Map<string, RepoData>,
+  ): RoleDecision[] {
+    const totalContributions = guildConfig.repositories.reduce((sum, repo) => {
+      const repoData = repoDataMap.get(`${repo.owner}/${repo.name}`);
+      return sum + (repoData?.contributors?.get(normalizedUsername) ?? 0);
+    }, 0);
+
+    // Highest tier the user qualifies for, if any
+    const qualifiedTier =
+      totalContributions > 0
+        ? [...guildConfig.contributorTiers]
+            .sort((a, b) => b.minContributions - a.minContributions)
+            .find((tier) => totalContributions >= tier.minContributions)
+        : undefined;
+
+    return guildConfig.contributorTiers.map((tier) => {
+      const qualifies = qualifiedTier?.roleId === tier.roleId;
+
+      return {
+        roleId: tier.roleId,
+        qualifies,
+        reason: qualifies
+          ? `Reached ${qualifiedTier.minContributions}+ contributions tier (${totalContributions} contributions)`
+          : qualifiedTier
+            ? `Moved to ${qualifiedTier.minContributions}+ contributions tier (${totalContributions} contributions)`
+            : `Below the lowest contributor tier (${totalContributions} contributions)`,
+      };
+    });
+  }
+
+  /**
+   * Evaluate followed organization roles for a user
+   */
+  private evaluateOrganizationRoles(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    organizationMembers: Map<string, Set<string>>,
+  ): RoleDecision[] {
+    return guildConfig.organizations.map((organization) => {
+      const isMember =
+        organizationMembers.get(organization.login)?.has(normalizedUsername) ??
+        false;
+
+      return {
+        roleId: organization.roleId,
+        qualifies: isMember,
+        reason: isMember
+          ? `Member of the ${organization.login} organization`
+          : `Not a member of the ${organization.login} organization`,
+      };
+    });
+  }
+
+  /**
+   * Evaluate team to role mappings for a user
+   */
+  private evaluateTeamRoleMappings(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    teamMembers: Map<string, Set<string>>,
+  ): RoleDecision[] {
+    return guildConfig.teamRoleMappings.map((mapping) => {
+      const teamFullName = `${mapping.org}/${mapping.teamSlug}`;
+      const isMember =
+        teamMembers.get(teamFullName)?.has(normalizedUsername) ?? false;
+
+      return {
+        roleId: mapping.roleId,
+        qualifies: isMember,
+        reason: isMember
+          ? `Member of the @${teamFullName} team`
+          : `Not a member of the @${teamFullName} team`,
+      };
+    });
+  }
+
+  /**
+   * Evaluate sponsor role mappings for a user. Private sponsorships only count
+   * for mappings that opted in, and are otherwise treated exactly like no
+   * sponsorship so audit log reasons don't reveal them.
+   */
+  private evaluateSponsorRoleMappings(
+    normalizedUsername: string,
+    guildConfig: SyncGuildConfig,
+    sponsors: Map<string, Map<string, Sponsorship>>,
+  ): RoleDecision[] {
+    return guildConfig.sponsorRoleMappings.map((mapping) => {
+      let sponsorship = sponsors
+        .get(mapping.sponsorable)
+        ?.get(normalizedUsername);
+      if (sponsorship?.isPrivate && !mapping.includePrivate) {
+        sponsorship = undefined;
+      }
+
+      if (!sponsorship) {
+        return {
+          roleId: mapping.roleId,
+          qualifies: false,
+          reason: `Not sponsoring ${mapping.sponsorable}`,
+        };
+      }
+
+      // An empty tier name matches any sponsorship
+      const inTier =
+        !mapping.tierName ||
+        sponsorship.tierName?.toLowerCase() === mapping.tierName.toLowerCase();
+
+      return {
+        roleId: mapping.roleId,
+        qualifies: inTier,
+        reason: inTier
+          ? `Sponsoring ${mapping.sponsorable}${sponsorship.tierName ? ` (${sponsorship.tierName})` : ''}`
+          : `Sponsoring ${mapping.sponsorable} outside the ${mapping.tierName} tier`,
+      };
+    });
   }
 }
@@ -0,0 +1,485 @@
+// Role rules combine relationship facts about a member's GitHub account into
+// a single condition, for example:
+//
+//   stargazer(acme/app) AND contributor(acme/sdk)
+//   count(contributor) >= 2
+//   contributions(*) >= 10 OR NOT stargazer(acme/app)
+//
+// A repository is written as "owner/name", or "*" for any followed repository.
+
+export const RULE_FACT_KINDS = ['contributor', 'stargazer'] as const;
+
+export type RuleFactKind = (typeof RULE_FACT_KINDS)[number];
+
+const COMPARISON_OPERATORS = ['>=', '<=', '==', '>', '<'] as const;
+
+type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number];
+
+export type RuleExpression =
+  | { type: 'and'; operands: RuleExpression[] }
+  | { type: 'or'; operands: RuleExpression[] }
+  | { type: 'not'; operand: RuleExpression }
+  // The member has the relationship with the repository, or with any
+  // followed repository when repository is null
+  | { type: 'fact'; kind: RuleFactKind; repository: string | null }
+  // Number of followed repositories the member has the relationship with
+  | {
+      type: 'count';
+      kind: RuleFactKind;
+      operator: ComparisonOperator;
+      value: number;
+    }
+  // Contributions to the repository, or in total when repository is null
+  | {
+      type: 'contributions';
+      repository: string | null;
+      operator: ComparisonOperator;
+      value: number;
+    };
+
+// Relationship facts about one member, keyed by "owner/name"
+export interface RuleFacts {
+  followedRepositories: string[];
+  contributions: Map<string, number>;
+  starredRepositories: Set<string>;
+}
+
+export interface RuleClauseResult {
+  clause: string;
+  satisfied: boolean;
+  detail: string;
+}
+
+export interface RuleEvaluation {
+  satisfied: boolean;
+  // Result of every fact and comparison in the rule, in source order
+  clauses: RuleClauseResult[];
+}
+
+export class RuleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleParseError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, RuleParseError.prototype);
+  }
+}
+
+interface Token {
+  value: string;
+  position: number;
+}
+
+const TOKEN_PATTERN = /^(>=|<=|==|[()<>]|[A-Za-z0-9_.\-/*]+)/;
+const REPOSITORY_PATTERN = /^[a-z0-9-]+\/[a-z0-9_.-]+$/;
+const MAX_RULE_LENGTH = 500;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const match = TOKEN_PATTERN.exec(rest);
+    if (!match) {
+      throw new RuleParseError(
+        `Unexpected character "${rest[0]}" at position ${position + 1}`,
+      );
+    }
+
+    tokens.push({ value: match[0], position: position + 1 });
+    position += match[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for rule expressions. NOT binds tighter than AND,
+ * which binds tighter than OR.
+ */
+class RuleParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): RuleExpression {
+    if (this.tokens.length === 0) {
+      throw new RuleParseError('Rule expression is empty');
+    }
+
+    const expression = this.parseOr();
+
+    const token = this.peek();
+    if (token) {
+      throw new RuleParseError(
+        `Unexpected "${token.value}" at position ${token.position}`,
+      );
+    }
+
+    return expression;
+  }
+
+  private parseOr(): RuleExpression {
+    const operands = [this.parseAnd()];
+    while (this.peekKeyword('or')) {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): RuleExpression {
+    const operands = [this.parseNot()];
+    while (this.peekKeyword('and')) {
+      this.next();
+      operands.push(this.parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.peekKeyword('not')) {
+      this.next();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleExpression {
+    const token = this.next();
+
+    if (token.value === '(') {
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+
+    const name = token.value.toLowerCase();
+
+    if (name === 'count') {
+      this.expect('(');
+      const kind = this.parseFactKind();
+      this.expect(')');
+      return { type: 'count', kind, ...this.parseComparison() };
+    }
+
+    if (name === 'contributions') {
+      this.expect('(');
+      const repository = this.parseRepository();
+      this.expect(')');
+      return { type: 'contributions', repository, ...this.parseComparison() };
+    }
+
+    if (isFactKind(name)) {
+      this.expect('(');
+      const repository = this.parseRepository();
+      this.expect(')');
+      return { type: 'fact', kind: name, repository };
+    }
+
+    throw new RuleParseError(
+      `Unknown fact "${token.value}" at position ${token.position}, expected one of ${[...RULE_FACT_KINDS, 'count', 'contributions'].join(', ')}`,
+    );
+  }
+
+  private parseFactKind(): RuleFactKind {
+    const token = this.next();
+    const kind = token.value.toLowerCase();
+
+    if (!isFactKind(kind)) {
+      throw new RuleParseError(
+        `Unknown relationship "${token.value}" at position ${token.position}, expected one of ${RULE_FACT_KINDS.join(', ')}`,
+      );
+    }
+
+    return kind;
+  }
+
+  private parseRepository(): string | null {
+    const token = this.next();
+    if (token.value === '*') return null;
+
+    const repository = token.value.toLowerCase();
+    if (!REPOSITORY_PATTERN.test(repository)) {
+      throw new RuleParseError(
+        `Invalid repository "${token.value}" at position ${token.position}, expected owner/name or *`,
+      );
+    }
+
+    return repository;
+  }
+
+  private parseComparison() {
+    const operatorToken = this.next();
+    const operator = COMPARISON_OPERATORS.find(
+      (candidate) => candidate === operatorToken.value,
+    );
+
+    if (!operator) {
+      throw new RuleParseError(
+        `Expected a comparison (${COMPARISON_OPERATORS.join(', ')}) at position ${operatorToken.position}`,
+      );
+    }
+
+    const valueToken = this.next();
+    if (!/^\d+$/.test(valueToken.value)) {
+      throw new RuleParseError(
+        `Expected a number at position ${valueToken.position}`,
+      );
+    }
+
+    return { operator, value: parseInt(valueToken.value, 10) };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private peekKeyword(keyword: string) {
+    return this.peek()?.value.toLowerCase() === keyword;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new RuleParseError('Unexpected end of rule expression');
+    }
+    this.index++;
+    return token;
+  }
+
+  private expect(value: string) {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new RuleParseError(
+        `Expected "${value}" at position ${token.position}, found "${token.value}"`,
+      );
+    }
+  }
+}
+
+function isFactKind(value: string): value is RuleFactKind {
+  return RULE_FACT_KINDS.some((kind) => kind === value);
+}
+
+/**
+ * Parse a rule expression, throwing a RuleParseError that points at the
+ * problem if it is invalid
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  if (source.length > MAX_RULE_LENGTH) {
+    throw new RuleParseError(
+      `Rule expression is longer than ${MAX_RULE_LENGTH} characters`,
+    );
+  }
+
+  return new RuleParser(tokenize(source)).parse();
+}
+
+/**
+ * Format a parsed rule expression in its canonical form
+ */
+export function formatRuleExpression(
+  expression: RuleExpression,
+  nested = false,
+): string {
+  switch (expression.type) {
+    case 'and':
+    case 'or': {
+      const formatted = expression.operands
+        .map((operand) => formatRuleExpression(operand, true))
+        .join(expression.type === 'and' ? ' AND ' : ' OR ');
+      return nested ? `(${formatted})` : formatted;
+    }
+    case 'not':
+      return `NOT ${formatRuleExpression(expression.operand, true)}`;
+    case 'fact':
+      return `${expression.kind}(${expression.repository ?? '*'})`;
+    case 'count':
+      return `count(${expression.kind}) ${expression.operator} ${expression.value}`;
+    case 'contributions':
+      return `contributions(${expression.repository ?? '*'}) ${expression.operator} ${expression.value}`;
+  }
+}
+
+/**
+ * Repositories referenced by name in a rule expression
+ */
+export function getRuleRepositories(expression: RuleExpression): string[] {
+  const repositories = new Set<string>();
+
+  visitClauses(expression, (clause) => {
+    if (clause.type !== 'count' && clause.repository) {
+      repositories.add(clause.repository);
+    }
+  });
+
+  return Array.from(repositories);
+}
+
+/**
+ * Relationship kinds a rule expression needs data for on one repository
+ */
+export function getRuleFactKinds(
+  expression: RuleExpression,
+  repository: string,
+): RuleFactKind[] {
+  const kinds = new Set<RuleFactKind>();
+
+  visitClauses(expression, (clause) => {
+    if (clause.type === 'count') {
+      kinds.add(clause.kind);
+    } else if (!clause.repository || clause.repository === repository) {
+      kinds.add(clause.type === 'fact' ? clause.kind : 'contributor');
+    }
+  });
+
+  return Array.from(kinds);
+}
+
+/**
+ * Evaluate a rule expression against the facts of one member, recording the
+ * result of every clause so the outcome can be explained
+ */
+export function evaluateRule(
+  expression: RuleExpression,
+  facts: RuleFacts,
+): RuleEvaluation {
+  const clauses: RuleClauseResult[] = [];
+  const satisfied = evaluateExpression(expression, facts, clauses);
+  return { satisfied, clauses };
+}
+
+type RuleClause = Extract<
+  RuleExpression,
+  { type: 'fact' | 'count' | 'contributions' }
+>;
+
+function visitClauses(
+  expression: RuleExpression,
+  visit: (clause: RuleClause) => void,
+) {
+  switch (expression.type) {
+    case 'and':
+    case 'or':
+      expression.operands.forEach((operand) => visitClauses(operand, visit));
+      break;
+    case 'not':
+      visitClauses(expression.operand, visit);
+      break;
+    default:
+      visit(expression);
+  }
+}
+
+function evaluateExpression(
+  expression: RuleExpression,
+  facts: RuleFacts,
+  clauses: RuleClauseResult[],
+): boolean {
+  switch (expression.type) {
+    case 'and':
+    case 'or': {
+      // Evaluate every operand so each clause shows up in the explanation
+      const results = expression.operands.map((operand) =>
+        evaluateExpression(operand, facts, clauses),
+      );
+      return expression.type === 'and'
+        ? results.every(Boolean)
+        : results.some(Boolean);
+    }
+    case 'not':
+      return !evaluateExpression(expression.operand, facts, clauses);
+    default: {
+      const result = evaluateClause(expression, facts);
+      clauses.push({ clause: formatRuleExpression(expression), ...result });
+      return result.satisfied;
+    }
+  }
+}
+
+function evaluateClause(
+  clause: RuleClause,
+  facts: RuleFacts,
+): { satisfied: boolean; detail: string } {
+  switch (clause.type) {
+    case 'fact': {
+      const matching = getMatchingRepositories(
+        clause.kind,
+        clause.repository,
+        facts,
+      );
+      return {
+        satisfied: matching.length > 0,
+        detail:
+          matching.length > 0
+            ? `${describeFactKind(clause.kind)} ${matching.join(', ')}`
+            : `not a ${describeFactKind(clause.kind)} ${clause.repository ?? 'any followed repository'}`,
+      };
+    }
+    case 'count': {
+      const count = getMatchingRepositories(clause.kind, null, facts).length;
+      return {
+        satisfied: compare(count, clause.operator, clause.value),
+        detail: `${describeFactKind(clause.kind)} ${count} followed repository(s)`,
+      };
+    }
+    case 'contributions': {
+      const repositories = clause.repository
+        ? [clause.repository]
+        : facts.followedRepositories;
+      const contributions = repositories.reduce(
+        (sum, repository) => sum + (facts.contributions.get(repository) ?? 0),
+        0,
+      );
+      return {
+        satisfied: compare(contributions, clause.operator, clause.value),
+        detail: `${contributions} contribution(s)`,
+      };
+    }
+  }
+}
+
+function describeFactKind(kind: RuleFactKind) {
+  return kind === 'contributor' ? 'contributor to' : 'stargazer of';
+}
+
+function getMatchingRepositories(
+  kind: RuleFactKind,
+  repository: string | null,
+  facts: RuleFacts,
+) {
+  const repositories = repository ? [repository] : facts.followedRepositories;
+
+  return repositories.filter((candidate) =>
+    kind === 'contributor'
+      ? (facts.contributions.get(candidate) ?? 0) > 0
+      : facts.starredRepositories.has(candidate),
+  );
+}
+
+function compare(actual: number, operator: ComparisonOperator, value: number) {
+  switch (operator) {
+    case '>=':
+      return actual >= value;
+    case '<=':
+      return actual <= value;
+    case '==':
+      return actual === value;
+    case '>':
+      return actual > value;
+    case '<':
+      return actual < value;
+  }
+}